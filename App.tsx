@@ -3,6 +3,8 @@ import React, { useState, useRef } from 'react';
 import { EditorView } from './components/EditorView';
 import { HomeScreen } from './components/HomeScreen';
 import type { ImageVariation } from './types';
+import { EditorProject, loadProject } from './services/projectStore';
+import { importProjectArchive, ProjectArchiveError } from './services/projectArchive';
 
 const App: React.FC = () => {
   // New state: Array of files for the new workflow
@@ -10,16 +12,50 @@ const App: React.FC = () => {
   
   // Legacy support (optional, but keeping for interface consistency if needed internally, though we primarily use files now)
   const [imageToEdit, setImageToEdit] = useState<ImageVariation | null>(null);
+
+  // Saved project being reopened; the key remounts the editor whenever another project starts
+  const [projectToOpen, setProjectToOpen] = useState<EditorProject | null>(null);
+  const [editorKey, setEditorKey] = useState(0);
   
   const handleFilesSelected = (files: File[]) => {
     if (files.length > 0) {
+      setProjectToOpen(null);
       setFilesToEdit(files);
+      setEditorKey(key => key + 1);
+    }
+  };
+
+  const openProject = (project: EditorProject) => {
+    setProjectToOpen(project);
+    setFilesToEdit(project.sourceFiles);
+    setEditorKey(key => key + 1);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    const project = await loadProject(projectId);
+    if (!project) {
+      alert('프로젝트를 열 수 없습니다.');
+      return;
+    }
+    openProject(project);
+  };
+
+  // Project files open as a new saved project (the editor autosaves it on open)
+  const handleImportProject = async (file: File) => {
+    try {
+      openProject(await importProjectArchive(file));
+    } catch (error) {
+      console.warn('Could not import project file:', error);
+      alert(error instanceof ProjectArchiveError && error.reason === 'newer-version'
+        ? '이 프로젝트 파일은 더 새로운 버전에서 만들어져 열 수 없습니다. 앱을 업데이트해 주세요.'
+        : '프로젝트 파일을 열 수 없습니다.');
     }
   };
 
   const handleReturnFromEditor = () => {
     setFilesToEdit(null);
     setImageToEdit(null);
+    setProjectToOpen(null);
   };
 
   return (
@@ -27,7 +63,9 @@ const App: React.FC = () => {
       <div className="flex-1 h-full overflow-hidden">
         {filesToEdit ? (
           <EditorView 
+            key={editorKey}
             uploadedFiles={filesToEdit}
+            project={projectToOpen ?? undefined}
             // Legacy prop - passing null or a dummy if strictly required by types, but we updated EditorView to take optional
             image={null as any} 
             onDone={handleReturnFromEditor} 
@@ -35,6 +73,8 @@ const App: React.FC = () => {
         ) : (
           <HomeScreen 
             onFilesSelect={handleFilesSelected} // Changed prop name to reflect multiple
+            onOpenProject={handleOpenProject}
+            onImportProject={handleImportProject}
           />
         )}
       </div>
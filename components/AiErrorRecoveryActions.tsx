@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AiErrorKind } from '../services/aiErrors';
+import { t } from '../i18n';
+
+// How long "wait and retry" holds off before firing, so a quota window has a chance to reset
+const QUOTA_RETRY_WAIT_SECONDS = 10;
+
+export const getAiErrorTitle = (kind?: AiErrorKind): string => {
+  switch (kind) {
+    case 'quota': return t('errorTitleQuota');
+    case 'safety': return t('errorTitleSafety');
+    case 'empty-image': return t('errorTitleEmptyImage');
+    case 'transient': return t('errorTitleTransient');
+    case 'invalid-input': return t('errorTitleInvalidInput');
+    default: return t('errorTitle');
+  }
+};
+
+interface AiErrorRecoveryActionsProps {
+  kind?: AiErrorKind;
+  onRetry?: () => void;
+  onRephrase?: () => void;
+  buttonClassName?: string;
+}
+
+// Recovery buttons that fit the kind of failure: wait and retry, rephrase the prompt, or switch API key.
+export const AiErrorRecoveryActions: React.FC<AiErrorRecoveryActionsProps> = ({ kind, onRetry, onRephrase, buttonClassName }) => {
+  const [waitSecondsLeft, setWaitSecondsLeft] = useState<number | null>(null);
+  // Parents pass fresh closures on every render; keep the latest without restarting the countdown
+  const onRetryRef = useRef(onRetry);
+  onRetryRef.current = onRetry;
+
+  useEffect(() => {
+    if (waitSecondsLeft === null) return;
+    if (waitSecondsLeft <= 0) {
+      setWaitSecondsLeft(null);
+      onRetryRef.current?.();
+      return;
+    }
+    const timer = setTimeout(() => setWaitSecondsLeft(waitSecondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [waitSecondsLeft]);
+
+  const canSelectKey = kind === 'quota' && !!window.aistudio?.openSelectKey;
+  const showWaitAndRetry = !!onRetry && (kind === 'quota' || kind === 'transient');
+  const showRetry = !!onRetry && (kind === 'empty-image' || kind === 'unknown' || kind === undefined);
+  const showRephrase = !!onRephrase && (kind === 'safety' || kind === 'empty-image' || kind === 'invalid-input');
+
+  if (!canSelectKey && !showWaitAndRetry && !showRetry && !showRephrase) return null;
+
+  const className = buttonClassName || 'bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1 px-3 rounded-md text-sm transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {showWaitAndRetry && (
+        <button
+          onClick={() => kind === 'quota' ? setWaitSecondsLeft(QUOTA_RETRY_WAIT_SECONDS) : onRetry!()}
+          disabled={waitSecondsLeft !== null}
+          className={className}
+        >
+          {waitSecondsLeft !== null ? t('retryingIn', { seconds: waitSecondsLeft }) : t('waitAndRetry')}
+        </button>
+      )}
+      {showRetry && (
+        <button onClick={onRetry} className={className}>
+          {t('retry')}
+        </button>
+      )}
+      {showRephrase && (
+        <button onClick={onRephrase} className={className}>
+          {t('rephrasePrompt')}
+        </button>
+      )}
+      {canSelectKey && (
+        <button onClick={() => window.aistudio!.openSelectKey()} className={className}>
+          {t('selectAnotherApiKey')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { ImageModal } from './ImageModal';
 import { dataUrlToFile } from '../utils/imageUtils';
 import { t } from '../i18n';
 import { generateImageEdits, retryImageGeneration } from '../services/geminiService';
+import { classifyAiError } from '../services/aiErrors';
 import { DevModeConfirmationModal } from './DevModeConfirmationModal';
 
 interface AlbumViewProps {
@@ -31,6 +32,7 @@ interface DevModalState {
 export const AlbumView: React.FC<AlbumViewProps> = ({ album, onUpdateAlbum, onEditImage, isDevMode }) => {
   const [selectedImageUrl, setSelectedImageUrl] = React.useState<string | null>(null);
   const [prefilledImage, setPrefilledImage] = React.useState<File | null>(null);
+  const [prefilledPrompt, setPrefilledPrompt] = React.useState('');
   const chatEndRef = useRef<HTMLDivElement>(null);
   
   const [leftPanelWidth, setLeftPanelWidth] = useState(450);
@@ -244,7 +246,7 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ album, onUpdateAlbum, onEd
         onUpdateAlbum({ ...album, galleryImages: updatedGallery, chatHistory: updatedChatHistory });
     };
 
-    const loadingVariation = { ...failedVariation, isLoading: true, isError: false, errorMessage: undefined };
+    const loadingVariation = { ...failedVariation, isLoading: true, isError: false, errorMessage: undefined, errorKind: undefined };
     updateVariationState(loadingVariation);
 
     try {
@@ -263,12 +265,25 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ album, onUpdateAlbum, onEd
 
     } catch (error) {
         console.error('Retry failed:', error);
-        const newErrorVariation = { ...failedVariation, isLoading: false, isError: true, errorMessage: error instanceof Error ? error.message : 'Retry failed.' };
+        const aiError = classifyAiError(error, 'Retry failed.');
+        const newErrorVariation = { ...failedVariation, isLoading: false, isError: true, errorMessage: aiError.message, errorKind: aiError.kind };
         updateVariationState(newErrorVariation);
     }
   };
 
 
+  // Blocked or rejected prompts can't just be retried: put the prompt and its image back in the chat input to edit
+  const handleRephraseVariation = async (failedVariation: ImageVariation) => {
+    if (!failedVariation.retryPayload) return;
+    const { images, prompt } = failedVariation.retryPayload;
+    try {
+      if (images[0]) setPrefilledImage(await dataUrlToFile(`data:${images[0].mimeType};base64,${images[0].base64Data}`, 'source_image.png'));
+    } catch (error) {
+      console.error("Failed to add image to chat:", error);
+    }
+    setPrefilledPrompt(prompt);
+  };
+
   const handleSelectImage = (imageUrl: string) => {
     setSelectedImageUrl(imageUrl);
   };
@@ -309,6 +324,7 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ album, onUpdateAlbum, onEd
                 onAddToAlbum={() => {}}
                 onRetry={handleRetry}
                 onRetryVariation={handleRetryVariation}
+                onRephraseVariation={handleRephraseVariation}
               />
             ))}
             <div ref={chatEndRef} />
@@ -317,7 +333,8 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ album, onUpdateAlbum, onEd
             <ChatInput
               onSend={handleSendPrompt}
               prefilledImage={prefilledImage}
-              onPrefillConsumed={() => setPrefilledImage(null)}
+              prefilledPrompt={prefilledPrompt}
+              onPrefillConsumed={() => { setPrefilledImage(null); setPrefilledPrompt(''); }}
               isDisabled={!!isAssistantLoading}
             />
         </div>
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { BoundingBox } from '../types';
+
+interface Bounds {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+interface BoxDrawLayerProps {
+    bounds: Bounds; // displayed image area inside the container
+    onBoxDrawn: (box: BoundingBox) => void; // normalized 0-1000, like detected boxes
+}
+
+const MIN_SIZE = 6; // px; anything smaller is treated as a stray click
+
+// Lets the user drag out a new box over the image (used to add objects detection missed)
+export const BoxDrawLayer: React.FC<BoxDrawLayerProps> = ({ bounds, onBoxDrawn }) => {
+    const [start, setStart] = useState<{ x: number, y: number } | null>(null);
+    const [current, setCurrent] = useState<{ x: number, y: number } | null>(null);
+
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    const getPos = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: clamp(e.clientX - rect.left, 0, bounds.width),
+            y: clamp(e.clientY - rect.top, 0, bounds.height),
+        };
+    };
+
+    const handleMouseUp = () => {
+        if (start && current && Math.abs(current.x - start.x) >= MIN_SIZE && Math.abs(current.y - start.y) >= MIN_SIZE) {
+            onBoxDrawn({
+                xMin: Math.min(start.x, current.x) / bounds.width * 1000,
+                yMin: Math.min(start.y, current.y) / bounds.height * 1000,
+                xMax: Math.max(start.x, current.x) / bounds.width * 1000,
+                yMax: Math.max(start.y, current.y) / bounds.height * 1000,
+            });
+        }
+        setStart(null);
+        setCurrent(null);
+    };
+
+    return (
+        <div
+            className="absolute z-30 cursor-crosshair"
+            style={{ top: bounds.top, left: bounds.left, width: bounds.width, height: bounds.height }}
+            onMouseDown={(e) => { e.stopPropagation(); const pos = getPos(e); setStart(pos); setCurrent(pos); }}
+            onMouseMove={(e) => { if (start) setCurrent(getPos(e)); }}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+        >
+            {start && current && (
+                <div
+                    className="absolute border-2 border-dashed border-emerald-400 bg-emerald-400/10 pointer-events-none"
+                    style={{
+                        left: Math.min(start.x, current.x),
+                        top: Math.min(start.y, current.y),
+                        width: Math.abs(current.x - start.x),
+                        height: Math.abs(current.y - start.y),
+                    }}
+                />
+            )}
+        </div>
+    );
+};
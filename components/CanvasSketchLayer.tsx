@@ -8,16 +8,27 @@ interface CanvasSketchLayerProps {
     tool: 'pen' | 'line' | 'rect' | 'eraser' | 'arrow';
     color: string;
     lineWidth: number;
+    onStrokeStart?: (before: ImageData) => void; // canvas before each stroke/shape, for the editor's undo history
+    onStrokeEnd?: () => void;
 }
 
 export interface CanvasSketchLayerRef {
     getSketchDataUrl: () => string;
     clear: () => void;
-    undo: () => void;
-    hasHistory: boolean;
+    getSnapshot: () => ImageData | null;
+    restoreSnapshot: (data: ImageData) => void;
+    drawSketch: (base64: string) => Promise<void>; // a saved sketch (PNG, any size), scaled to the canvas
 }
 
-export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLayerProps>(({ width, height, isActive, tool, color, lineWidth }, ref) => {
+// True when nothing is drawn (every pixel fully transparent)
+export const isBlankSnapshot = (data: ImageData): boolean => {
+    for (let i = 3; i < data.data.length; i += 4) {
+        if (data.data[i] !== 0) return false;
+    }
+    return true;
+};
+
+export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLayerProps>(({ width, height, isActive, tool, color, lineWidth, onStrokeStart, onStrokeEnd }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isDrawing, setIsDrawing] = useState(false);
     const [ctx, setCtx] = useState<CanvasRenderingContext2D | null>(null);
@@ -26,9 +37,6 @@ export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLa
     const [startPos, setStartPos] = useState<{x: number, y: number} | null>(null);
     const [snapshot, setSnapshot] = useState<ImageData | null>(null);
 
-    // For Undo
-    const [history, setHistory] = useState<ImageData[]>([]);
-
     useImperativeHandle(ref, () => ({
         getSketchDataUrl: () => {
             if (!canvasRef.current) return '';
@@ -37,16 +45,26 @@ export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLa
         clear: () => {
             if (ctx && canvasRef.current) {
                 ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-                setHistory([]);
             }
         },
-        undo: () => {
-            if (!ctx || history.length === 0 || !canvasRef.current) return;
-            const previousState = history[history.length - 1];
-            setHistory(prev => prev.slice(0, -1));
-            ctx.putImageData(previousState, 0, 0);
+        getSnapshot: () => {
+            if (!ctx || !canvasRef.current) return null;
+            return ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
+        },
+        restoreSnapshot: (data: ImageData) => {
+            // A snapshot from before a resize no longer matches the canvas; skip it rather than smear it
+            if (!ctx || !canvasRef.current || data.width !== canvasRef.current.width || data.height !== canvasRef.current.height) return;
+            ctx.putImageData(data, 0, 0);
         },
-        hasHistory: history.length > 0
+        drawSketch: (base64: string) => new Promise<void>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => {
+                if (ctx && canvasRef.current) ctx.drawImage(img, 0, 0, canvasRef.current.width, canvasRef.current.height);
+                resolve();
+            };
+            img.onerror = () => reject(new Error('Failed to load sketch'));
+            img.src = `data:image/png;base64,${base64}`;
+        })
     }));
 
     useEffect(() => {
@@ -69,15 +87,6 @@ export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLa
         }
     }, [color, lineWidth, ctx]);
 
-    const saveState = () => {
-        if (!ctx || !canvasRef.current) return;
-        if (history.length > 19) { // Limit history stack
-             setHistory(prev => [...prev.slice(1), ctx.getImageData(0, 0, canvasRef.current!.width, canvasRef.current!.height)]);
-        } else {
-             setHistory(prev => [...prev, ctx.getImageData(0, 0, canvasRef.current!.width, canvasRef.current!.height)]);
-        }
-    };
-
     const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
         if (!isActive || !ctx || !canvasRef.current) return;
         // e.preventDefault(); // Removed to allow potential scrolling if needed, but handled by css touch-action: none usually
@@ -85,8 +94,8 @@ export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLa
         setIsDrawing(true);
         const pos = getPos(e);
         
-        // Save current state before starting new stroke/shape for Undo
-        saveState();
+        // Report the state before the new stroke/shape for Undo
+        onStrokeStart?.(ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height));
 
         setStartPos(pos);
         
@@ -159,6 +168,7 @@ export const CanvasSketchLayer = forwardRef<CanvasSketchLayerRef, CanvasSketchLa
              ctx.closePath();
              ctx.globalCompositeOperation = 'source-over';
         }
+        onStrokeEnd?.();
     };
 
     const getPos = (e: React.MouseEvent | React.TouchEvent) => {
@@ -22,6 +22,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [useWebSearch, setUseWebSearch] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const promptInputRef = useRef<HTMLInputElement>(null);
   
   const consumedRef = useRef({ image: false, prompt: false });
 
@@ -45,6 +46,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   useEffect(() => {
     if (prefilledPrompt && !consumedRef.current.prompt) {
       setPrompt(prefilledPrompt);
+      promptInputRef.current?.focus();
       consumedRef.current.prompt = true;
       onPrefillConsumed?.();
     }
@@ -119,6 +121,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           </div>
         )}
         <input
+          ref={promptInputRef}
           type="text"
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -14,9 +14,10 @@ interface ChatMessageProps {
   onAddToAlbum: (variation: ImageVariation) => void;
   onRetry: (failedMessage: ChatMessageType) => void;
   onRetryVariation: (variation: ImageVariation) => void;
+  onRephraseVariation?: (variation: ImageVariation) => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSelectImage, onSuggestionClick, onEditImage, onAddToAlbum, onRetry, onRetryVariation }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSelectImage, onSuggestionClick, onEditImage, onAddToAlbum, onRetry, onRetryVariation, onRephraseVariation }) => {
   const { role, text, imageUrls, variations, isLoading, isError, sourceImageUrl, followUpSuggestions, groundingMetadata, statusMessage } = message;
 
   const renderContent = () => {
@@ -37,6 +38,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onSelectImage
             onSuggestionClick={(suggestion) => onSuggestionClick(suggestion, sourceImageUrl)}
             groundingMetadata={groundingMetadata}
             onRetryVariation={onRetryVariation}
+            onRephraseVariation={onRephraseVariation}
           />
       );
     }
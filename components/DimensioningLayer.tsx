@@ -1,21 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-
-interface Dimension {
-    id: string;
-    x1: number;
-    y1: number;
-    x2: number;
-    y2: number;
-    offset: number;
-    label: string;
-}
+import { Dimension } from '../types';
 
 interface DimensioningLayerProps {
     width: number;
     height: number;
     isActive: boolean;
     currentTool: 'draw' | 'select';
-    onDimensionsChange?: (dimensions: Dimension[]) => void;
+    // Controlled: the editor owns the list so every change can go through its undo history
+    dimensions: Dimension[];
+    onDimensionsChange: (dimensions: Dimension[]) => void;
     zoom?: number;
 }
 
@@ -26,35 +19,24 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
     height, 
     isActive, 
     currentTool,
+    dimensions,
     onDimensionsChange,
     zoom = 1
 }) => {
-    const [dimensions, setDimensions] = useState<Dimension[]>([]);
     const [drawingState, setDrawingState] = useState<DrawingState>('idle');
     const [firstPoint, setFirstPoint] = useState<{x: number, y: number} | null>(null);
     const [secondPoint, setSecondPoint] = useState<{x: number, y: number} | null>(null);
     const [offsetPoint, setOffsetPoint] = useState<{x: number, y: number} | null>(null);
     const [labelInput, setLabelInput] = useState('');
     const [isShiftPressed, setIsShiftPressed] = useState(false);
-    const [dimensionHistory, setDimensionHistory] = useState<Dimension[][]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null); // label being edited (select tool)
     const inputRef = useRef<HTMLInputElement>(null);
     const svgRef = useRef<SVGSVGElement>(null);
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
             if (e.key === 'Shift') setIsShiftPressed(true);
-            if (e.key === 'Escape') {
-                setDrawingState('idle');
-                setFirstPoint(null);
-                setSecondPoint(null);
-                setOffsetPoint(null);
-            }
-            // Ctrl+Z: 실행취소
-            if (e.ctrlKey && e.key === 'z' && dimensionHistory.length > 0) {
-                const prev = dimensionHistory[dimensionHistory.length - 1];
-                setDimensions(prev);
-                setDimensionHistory(dimensionHistory.slice(0, -1));
-            }
+            if (e.key === 'Escape') resetDrawing();
         };
         const handleKeyUp = (e: KeyboardEvent) => {
             if (e.key === 'Shift') setIsShiftPressed(false);
@@ -66,11 +48,25 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [dimensionHistory]);
+    }, []);
 
-    useEffect(() => {
-        onDimensionsChange?.(dimensions);
-    }, [dimensions, onDimensionsChange]);
+    const resetDrawing = () => {
+        setDrawingState('idle');
+        setFirstPoint(null);
+        setSecondPoint(null);
+        setOffsetPoint(null);
+        setEditingId(null);
+        setLabelInput('');
+    };
+
+    // 선택 도구: 치수를 클릭하면 라벨 수정
+    const startEditing = (dim: Dimension) => {
+        if (!isActive || currentTool !== 'select') return;
+        setEditingId(dim.id);
+        setLabelInput(dim.label);
+        setDrawingState('awaiting_label');
+        setTimeout(() => inputRef.current?.focus(), 100);
+    };
 
     const getScaledCoordinates = (e: React.MouseEvent<SVGSVGElement>): {x: number, y: number} => {
         if (!svgRef.current) return { x: 0, y: 0 };
@@ -152,6 +148,12 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
     };
 
     const handleLabelSubmit = () => {
+        if (editingId) {
+            if (!labelInput.trim()) return;
+            onDimensionsChange(dimensions.map(d => d.id === editingId ? { ...d, label: labelInput } : d));
+            resetDrawing();
+            return;
+        }
         if (!firstPoint || !secondPoint || !offsetPoint || !labelInput.trim()) return;
         
         const offset = calculateOffset(firstPoint, secondPoint, offsetPoint);
@@ -166,13 +168,14 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
             label: labelInput
         };
         
-        setDimensionHistory([...dimensionHistory, dimensions]);
-        setDimensions([...dimensions, newDim]);
-        setLabelInput('');
-        setFirstPoint(null);
-        setSecondPoint(null);
-        setOffsetPoint(null);
-        setDrawingState('idle');
+        onDimensionsChange([...dimensions, newDim]);
+        resetDrawing();
+    };
+
+    const handleDelete = () => {
+        if (!editingId) return;
+        onDimensionsChange(dimensions.filter(d => d.id !== editingId));
+        resetDrawing();
     };
 
     return (
@@ -233,7 +236,11 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
                     const textY = (dimY1 + dimY2) / 2;
 
                     return (
-                        <g key={dim.id}>
+                        <g
+                            key={dim.id}
+                            onClick={(e) => { if (currentTool === 'select') { e.stopPropagation(); startEditing(dim); } }}
+                            style={{ cursor: isActive && currentTool === 'select' ? 'pointer' : undefined }}
+                        >
                             {/* 양 끝 막대기 (연장선) */}
                             <line x1={dim.x1} y1={dim.y1} x2={ext1X2} y2={ext1Y2} stroke="black" strokeWidth="3" />
                             <line x1={dim.x2} y1={dim.y2} x2={ext2X2} y2={ext2Y2} stroke="black" strokeWidth="3" />
@@ -311,7 +318,7 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
                     <div className="bg-gradient-to-br from-gray-900 to-black p-12 rounded-3xl 
                                   border border-white/20 shadow-2xl w-[900px]">
-                        <h3 className="text-white text-2xl font-semibold mb-6 tracking-wide">치수 입력</h3>
+                        <h3 className="text-white text-2xl font-semibold mb-6 tracking-wide">{editingId ? '치수 수정' : '치수 입력'}</h3>
                         <input
                             ref={inputRef}
                             type="text"
@@ -319,12 +326,7 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
                             onChange={(e) => setLabelInput(e.target.value)}
                             onKeyDown={(e) => {
                                 if (e.key === 'Enter') handleLabelSubmit();
-                                if (e.key === 'Escape') {
-                                    setDrawingState('idle');
-                                    setFirstPoint(null);
-                                    setSecondPoint(null);
-                                    setOffsetPoint(null);
-                                }
+                                if (e.key === 'Escape') resetDrawing();
                             }}
                             placeholder="예: 50mm"
                             className="w-full p-6 border-2 border-white/20 rounded-2xl mb-6 text-2xl
@@ -340,12 +342,15 @@ export const DimensioningLayer: React.FC<DimensioningLayerProps> = ({
                                              transition-all duration-300 hover:scale-105">
                                 확인
                             </button>
-                            <button onClick={() => {
-                                        setDrawingState('idle');
-                                        setFirstPoint(null);
-                                        setSecondPoint(null);
-                                        setOffsetPoint(null);
-                                    }} 
+                            {editingId && (
+                                <button onClick={handleDelete}
+                                        className="flex-1 px-8 py-4 bg-red-500/80 hover:bg-red-500 text-white 
+                                                 rounded-2xl text-xl font-bold
+                                                 transition-all duration-300 hover:scale-105">
+                                    삭제
+                                </button>
+                            )}
+                            <button onClick={resetDrawing} 
                                     className="flex-1 px-8 py-4 bg-white/10 hover:bg-white/20 text-white 
                                              rounded-2xl text-xl font-bold border border-white/20
                                              transition-all duration-300 hover:scale-105">
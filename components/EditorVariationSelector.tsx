@@ -1,33 +1,68 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { ImageVariation } from '../types';
 
 interface EditorVariationSelectorProps {
   variations: ImageVariation[];
+  pendingCount?: number; // candidates still generating, shown as placeholders
   onSelect: (variation: ImageVariation) => void;
   onCancel: () => void;
 }
 
-export const EditorVariationSelector: React.FC<EditorVariationSelectorProps> = ({ variations, onSelect, onCancel }) => {
+const gridColumnsFor = (slots: number) => {
+  if (slots <= 1) return 'grid-cols-1 max-w-xl';
+  if (slots === 3) return 'grid-cols-3';
+  return 'grid-cols-2 max-w-4xl';
+};
+
+export const EditorVariationSelector: React.FC<EditorVariationSelectorProps> = ({ variations, pendingCount = 0, onSelect, onCancel }) => {
+  const totalSlots = variations.length + pendingCount;
+  // Masked edits come composited onto the original; the raw model output can be picked instead
+  const [showRaw, setShowRaw] = useState(false);
+  const hasRawOutputs = variations.some(v => v.rawImageUrl);
+
+  const displayed = (variation: ImageVariation): ImageVariation =>
+    showRaw && variation.rawImageUrl ? { ...variation, imageUrl: variation.rawImageUrl, rawImageUrl: undefined } : variation;
+
   return (
     <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center z-40 backdrop-blur-md p-8">
-      <h2 className="text-2xl font-bold text-white mb-6">Choose your favorite</h2>
-      <div className="grid grid-cols-3 gap-6">
+      <h2 className="text-2xl font-bold text-white mb-4">Choose your favorite</h2>
+      {hasRawOutputs && (
+        <div className="flex bg-white/5 rounded-lg p-1 mb-6 border border-white/10 text-sm">
+          <button
+            onClick={() => setShowRaw(false)}
+            className={`px-4 py-1.5 rounded-md transition-colors ${!showRaw ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            Composited
+          </button>
+          <button
+            onClick={() => setShowRaw(true)}
+            className={`px-4 py-1.5 rounded-md transition-colors ${showRaw ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            Raw output
+          </button>
+        </div>
+      )}
+      <div className={`grid gap-6 w-full ${gridColumnsFor(totalSlots)}`}>
         {variations.map((variation) => (
           <div
             key={variation.id}
             className="group cursor-pointer rounded-lg overflow-hidden ring-2 ring-transparent hover:ring-blue-500 transition-all"
-            onClick={() => onSelect(variation)}
+            onClick={() => onSelect(displayed(variation))}
           >
             <img
-              src={variation.imageUrl}
+              src={displayed(variation).imageUrl}
               alt={variation.title}
               className="w-full h-full object-contain bg-black"
             />
           </div>
         ))}
+        {Array.from({ length: pendingCount }, (_, i) => (
+          <div key={`pending-${i}`} className="aspect-square rounded-lg bg-white/5 border border-white/10 flex items-center justify-center">
+            <div className="animate-spin w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full"></div>
+          </div>
+        ))}
       </div>
-      <button 
+      <button
         onClick={onCancel}
         className="mt-8 bg-white/10 text-white font-semibold px-5 py-2 rounded-lg hover:bg-white/20"
       >
@@ -1,20 +1,42 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { ImageVariation, ApiObject, DetectedObject, BoundingBox } from '../types';
-import { segmentObjectsInImage, editImageWithMask, generateRepositionPrompt, applyRepositionEdit, generateFrontViewFromUploads, generateIsometricViews, editImageWithSketch, generateBlueprintStyle, refineBlueprintDimensions, generate3DIsometric, generateOrthographicViews, setProgressCallback } from '../services/geminiService';
+import { ImageVariation, ApiObject, DetectedObject, BoundingBox, ObjectTransform, EditorMode, Dimension, DrawingMetadata } from '../types';
+import { segmentObjectsInImage, nameImageRegion, editImageWithMask, generateRepositionPrompt, applyRepositionEdit, generateFrontViewFromUploads, generateIsometricViews, editImageWithSketch, generateBlueprintStyle, refineBlueprintDimensions, generate3DIsometric, generateOrthographicViews, setProgressCallback, CandidateUpdate, GeneratedImage, GenerationOptions, estimateImageGenerationCost, DEFAULT_COMPOSITE_FEATHER, MIN_CANDIDATE_COUNT, MAX_CANDIDATE_COUNT } from '../services/geminiService';
 import { t } from '../i18n';
-import { ObjectLayer } from './ObjectLayer';
+import { ObjectLayer, OBJECT_DRAG_TYPE } from './ObjectLayer';
 import { ObjectLayerSkeleton } from './ObjectLayerSkeleton';
 import { Spinner } from './Spinner';
 import { InteractiveBoundingBox } from './InteractiveBoundingBox';
-import { cropImage, createMaskFromBox, createCombinedMask, compositeOntoCanvas } from '../utils/imageUtils';
+import { cropImage, compositeOntoCanvas, drawMovementInstructions } from '../utils/imageUtils';
+import { createObjectMask, createCombinedMask, MaskRegion } from '../utils/maskUtils';
+import { matchObjectTrees } from '../utils/objectMatching';
+import { unionBox, rotatedBounds, transformBoxes, alignBoxes, distributeBoxes, matchBoxSize, BoxAlignment, BoxAxis, BoxDimension } from '../utils/boxLayout';
+import { expandParentBoxes, renameObject, reparentObject, canReparent, mergeObjects, splitObject, addObject } from '../utils/objectTree';
+import { renameVersion, togglePinned, pruneVersion } from '../utils/versionTree';
+import { CommandHistory, CommandScope, EMPTY_HISTORY, pushCommand, takeUndo, takeRedo, peekUndo, peekRedo } from '../utils/commandHistory';
+import { AiError, classifyAiError, isCancelledError } from '../services/aiErrors';
 import { StaticBoundingBox } from './StaticBoundingBox';
+import { MaskOutline } from './MaskOutline';
+import { BoxDrawLayer } from './BoxDrawLayer';
+import { RepositionPreviewLayer, PreviewMove } from './RepositionPreviewLayer';
 import { EditorVariationSelector } from './EditorVariationSelector';
-import { CanvasSketchLayer, CanvasSketchLayerRef } from './CanvasSketchLayer';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { VersionCompareView } from './VersionCompareView';
+import { CanvasSketchLayer, CanvasSketchLayerRef, isBlankSnapshot } from './CanvasSketchLayer';
+import { MaskPaintLayer, MaskPaintLayerRef, MaskPaintTool } from './MaskPaintLayer';
 import { DimensioningLayer } from './DimensioningLayer';
 import { CheckIcon } from './icons/CheckIcon';
 import { TechnicalDrawingExport } from './TechnicalDrawingExport';
-import { UploadIcon } from './icons/UploadIcon';
+import { SourcePhotoManager } from './SourcePhotoManager';
+import { ProviderSelect } from './ProviderSelect';
+import { JobQueueIndicator } from './JobQueueIndicator';
+import { UsagePanel } from './UsagePanel';
+import { setActiveUsageProject, checkBudget } from '../services/usageLedger';
+import { AiErrorRecoveryActions, getAiErrorTitle } from './AiErrorRecoveryActions';
+import { StudioPresetPicker } from './StudioPresetPicker';
+import { getStudioPreset, getLastUsedStudioPresetId, setLastUsedStudioPresetId } from '../services/studioPresets';
+import { EditorProject, saveProject } from '../services/projectStore';
+import { exportProjectArchive } from '../services/projectArchive';
 
 // Icons for Sketch Tools
 const PenIcon = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"></path></svg>;
@@ -24,10 +46,10 @@ const ArrowIcon = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" heigh
 interface EditorViewProps {
   image?: ImageVariation; 
   uploadedFiles?: File[]; 
+  project?: EditorProject; // a saved project to reopen where it was left
   onDone: (newImage?: ImageVariation) => void;
 }
 
-type EditorMode = 'UPLOAD' | 'OBJECT' | 'SKETCH' | 'BLUEPRINT' | 'FINAL';
 type ViewPhase = 'INITIALIZING' | 'EDITING' | 'GENERATING_VIEWS' | 'SHOWCASE';
 
 const findObjectById = (nodes: DetectedObject[], id: string): DetectedObject | null => {
@@ -58,57 +80,115 @@ const getAllObjects = (nodes: DetectedObject[]): DetectedObject[] => {
     return flat;
 };
 
+const isIdentityTransform = (transform?: ObjectTransform) =>
+    !transform || (transform.rotation === 0 && !transform.flipHorizontal && !transform.flipVertical);
+
+// What an object-mode undo step restores: the tree, the pending reposition edits on it, and the tree
+// kept on the history entry (unset when the image has none)
+interface ObjectEditState {
+    objects: DetectedObject[];
+    rememberedObjects?: DetectedObject[];
+    modifiedBoxes: Record<string, BoundingBox>;
+    modifiedTransforms: Record<string, ObjectTransform>;
+    duplicatedObjectIds: Set<string>;
+    arrangementNotes: string[];
+}
+
+// Undo steps reachable from each mode; global ones (image and mode changes) are reachable everywhere
+const MODE_COMMAND_SCOPES: Record<EditorMode, CommandScope[]> = {
+    UPLOAD: ['global'],
+    OBJECT: ['object', 'global'],
+    SKETCH: ['sketch', 'global'],
+    BLUEPRINT: ['dimensions', 'global'],
+    FINAL: ['metadata', 'global'],
+};
+
+const AUTOSAVE_DELAY = 1000; // ms after the last change
+
 // Section Heights
 const TOP_SECTION_HEIGHT = '70px';
 const BOTTOM_SECTION_HEIGHT = '70px';
 
-export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, uploadedFiles, onDone }) => {
-  const [viewPhase, setViewPhase] = useState<ViewPhase>(uploadedFiles ? 'INITIALIZING' : 'EDITING');
-  const [mode, setMode] = useState<EditorMode>('OBJECT');
+export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, uploadedFiles, project, onDone }) => {
+  const [viewPhase, setViewPhase] = useState<ViewPhase>(uploadedFiles && !project ? 'INITIALIZING' : 'EDITING');
+  const [mode, setMode] = useState<EditorMode>(project?.mode ?? 'OBJECT');
   
-  const [currentImage, setCurrentImage] = useState<ImageVariation | null>(initialImage || null);
-  const [blueprintImage, setBlueprintImage] = useState<string | null>(null); 
+  const [currentImage, setCurrentImage] = useState<ImageVariation | null>(() =>
+      (project && project.imageHistory.find(img => img.id === project.currentImageId)) || initialImage || null);
+  const [blueprintImage, setBlueprintImage] = useState<string | null>(project?.blueprintImage ?? null); 
   
   // Technical Export State
-  const [isometricImage, setIsometricImage] = useState<string | null>(null);
-  const [orthographicViews, setOrthographicViews] = useState<{front: string, side: string} | null>(null);
-  const [showTechnicalExport, setShowTechnicalExport] = useState(false);
-  const [exportDimensions, setExportDimensions] = useState<{id: string, x1: number, y1: number, x2: number, y2: number, offset: number, label: string}[]>([]);
-  const [metadata, setMetadata] = useState({
+  const [isometricImage, setIsometricImage] = useState<string | null>(project?.isometricImage ?? null);
+  const [orthographicViews, setOrthographicViews] = useState<{front: string, side: string} | null>(project?.orthographicViews ?? null);
+  const [showTechnicalExport, setShowTechnicalExport] = useState(project?.mode === 'FINAL');
+  const [exportDimensions, setExportDimensions] = useState<Dimension[]>(project?.dimensions ?? []);
+  const [metadata, setMetadata] = useState<DrawingMetadata>(project?.metadata ?? {
       title: 'FURNITURE ASSEMBLY',
       date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).toUpperCase(),
       notes: 'ALL DIMENSIONS IN MM'
   });
+  // Usage ledger entries made while this editor is open are attributed to this project; also the autosave key
+  const [projectId] = useState(() => project?.id ?? `project-${Date.now()}`);
+  // Studio environment of this project, reused whenever the studio shot is regenerated
+  const [studioPresetId, setStudioPresetId] = useState<string>(() => project?.studioPresetId ?? getLastUsedStudioPresetId());
+  // Source photos, managed from the upload tab; the hero photo anchors the studio shot
+  const [sourceFiles, setSourceFiles] = useState<File[]>(() => project?.sourceFiles ?? uploadedFiles ?? []);
+  const [heroFileIndex, setHeroFileIndex] = useState(project?.heroFileIndex ?? 0);
 
   // Zoom Controls State
-  const [zoom, setZoom] = useState(1);
-  const [fitToScreen, setFitToScreen] = useState(true);
+  const [zoom, setZoom] = useState(project?.zoom ?? 1);
+  const [fitToScreen, setFitToScreen] = useState(project?.fitToScreen ?? true);
 
-  // HISTORY STATE
-  const [imageHistory, setImageHistory] = useState<ImageVariation[]>([]);
+  // HISTORY STATE - a version tree; the image the editor was opened with is its first root
+  const [imageHistory, setImageHistory] = useState<ImageVariation[]>(() =>
+      project?.imageHistory ?? (initialImage ? [{ ...initialImage, parentId: null, operation: 'initial' }] : []));
+  const [comparedVersions, setComparedVersions] = useState<{ beforeId: string, afterId: string } | null>(null);
 
-  const [objects, setObjects] = useState<DetectedObject[]>([]);
+  const [objects, setObjects] = useState<DetectedObject[]>(project?.objects ?? []);
   const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  // Shift-click selection; holds every selected id (the primary one included) once there are two or more
+  const [groupSelection, setGroupSelection] = useState<string[]>([]);
+  // Layout commands applied to the group, passed along with the reposition instruction
+  const [arrangementNotes, setArrangementNotes] = useState<string[]>(project?.arrangementNotes ?? []);
   const [isLoading, setIsLoading] = useState(false); 
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ error: AiError; retry?: () => void; canRephrase?: boolean } | null>(null);
   const [imgSize, setImgSize] = useState({ width: 1, height: 1 });
   const [prompt, setPrompt] = useState('');
   
   const [expandedObjectIds, setExpandedObjectIds] = useState<Set<string>>(new Set());
+  // Object tree of the previous image, re-matched once the newly picked image has been detected
+  const [objectsToTrack, setObjectsToTrack] = useState<DetectedObject[] | null>(null);
+  const [lostObjectLabels, setLostObjectLabels] = useState<string[]>([]);
+  const [mergeCandidateId, setMergeCandidateId] = useState('');
+  // Manually added objects: draw a box, then name it and pick a parent
+  const [isDrawingObject, setIsDrawingObject] = useState(false);
+  const [newObjectDraft, setNewObjectDraft] = useState<{ box: BoundingBox, label: string, parentId: string } | null>(null);
+  const [isNamingRegion, setIsNamingRegion] = useState(false);
   
-  const [modifiedBoxes, setModifiedBoxes] = useState<Record<string, BoundingBox>>({});
-  const [duplicatedObjectIds, setDuplicatedObjectIds] = useState<Set<string>>(new Set());
+  const [modifiedBoxes, setModifiedBoxes] = useState<Record<string, BoundingBox>>(project?.modifiedBoxes ?? {});
+  // Rotation / mirroring of repositioned objects, applied together with their boxes
+  const [modifiedTransforms, setModifiedTransforms] = useState<Record<string, ObjectTransform>>(project?.modifiedTransforms ?? {});
+  const [showMovePreview, setShowMovePreview] = useState(true);
+  const [duplicatedObjectIds, setDuplicatedObjectIds] = useState<Set<string>>(() => new Set(project?.duplicatedObjectIds));
 
   const [interactiveBox, setInteractiveBox] = useState<{x:number, y:number, width:number, height:number} | null>(null);
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const sketchLayerRef = useRef<CanvasSketchLayerRef>(null);
+  const promptInputRef = useRef<HTMLInputElement>(null);
   const [imageLayout, setImageLayout] = useState({ top: 0, left: 0, width: 1, height: 1 });
+  // Bumped whenever the sketch canvas changes, so autosave notices strokes (the canvas isn't React state)
+  const [sketchRevision, setSketchRevision] = useState(0);
+  // A reopened project's sketch waits here until the canvas has its real size
+  const pendingSketchRef = useRef<string | null>(project?.sketchImage ?? null);
   
   const [generationStatus, setGenerationStatus] = useState<'idle' | 'generating' | 'analyzing'>('idle');
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [imageProgressMsg, setImageProgressMsg] = useState<string>('');
   const [variationsToSelect, setVariationsToSelect] = useState<ImageVariation[] | null>(null);
+  const [candidateCount, setCandidateCount] = useState(2); // candidates per sketch/mask/reposition edit
+  const [pendingCandidateCount, setPendingCandidateCount] = useState(0);
+  const [compositeFeather, setCompositeFeather] = useState(DEFAULT_COMPOSITE_FEATHER); // masked edits keep pixels outside the mask
   const [isGeneratingOrtho, setIsGeneratingOrtho] = useState(false);
 
   // SKETCH TOOLS STATE
@@ -116,6 +196,14 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
   const [sketchColor, setSketchColor] = useState('#FF0000');
   const [sketchWidth, setSketchWidth] = useState(5);
 
+  // MASK PAINT STATE (OBJECT mode): a painted mask takes the place of the selected object's mask
+  const maskPaintLayerRef = useRef<MaskPaintLayerRef>(null);
+  const [isMaskPainting, setIsMaskPainting] = useState(false);
+  const [maskPaintTool, setMaskPaintTool] = useState<MaskPaintTool>('brush');
+  const [maskBrushSize, setMaskBrushSize] = useState(40);
+  const [maskHardness, setMaskHardness] = useState(0.7);
+  const [hasPaintedMask, setHasPaintedMask] = useState(false);
+
   // BLUEPRINT TOOLS STATE
   const [blueprintTool, setBlueprintTool] = useState<'draw' | 'select'>('draw');
 
@@ -126,6 +214,95 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     return () => setProgressCallback(null);
   }, []);
 
+  useEffect(() => {
+    setActiveUsageProject(projectId);
+    return () => setActiveUsageProject(null);
+  }, [projectId]);
+
+  // AUTOSAVE - the project is written to IndexedDB shortly after every change, so a reload loses nothing
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const hasUnsavedChangesRef = useRef(false);
+  const buildProject = (): EditorProject => ({
+      id: projectId,
+      title: metadata.title,
+      mode,
+      zoom,
+      fitToScreen,
+      studioPresetId,
+      sourceFiles,
+      heroFileIndex,
+      imageHistory,
+      currentImageId: currentImage?.id ?? null,
+      objects,
+      modifiedBoxes,
+      modifiedTransforms,
+      duplicatedObjectIds: [...duplicatedObjectIds],
+      arrangementNotes,
+      blueprintImage,
+      isometricImage,
+      orthographicViews,
+      sketchImage: pendingSketchRef.current ?? (sketchLayerRef.current?.getSketchDataUrl() || null),
+      dimensions: exportDimensions,
+      metadata,
+  });
+  const buildProjectRef = useRef(buildProject);
+  buildProjectRef.current = buildProject;
+
+  const persistProject = () => {
+      hasUnsavedChangesRef.current = false;
+      const snapshot = buildProjectRef.current();
+      // One save at a time; each replaces the one before
+      saveChainRef.current = saveChainRef.current
+          .then(() => saveProject(snapshot))
+          .catch(e => console.warn('Autosave failed:', e));
+  };
+
+  useEffect(() => {
+      if (!currentImage) return; // nothing worth keeping before the first image exists
+      hasUnsavedChangesRef.current = true;
+      const timer = setTimeout(persistProject, AUTOSAVE_DELAY);
+      return () => clearTimeout(timer);
+  }, [mode, zoom, fitToScreen, studioPresetId, sourceFiles, heroFileIndex, imageHistory, currentImage, objects, modifiedBoxes, modifiedTransforms, duplicatedObjectIds, arrangementNotes, blueprintImage, isometricImage, orthographicViews, sketchRevision, exportDimensions, metadata]);
+
+  // Leaving the editor writes out whatever the debounce hadn't saved yet
+  useEffect(() => () => { if (hasUnsavedChangesRef.current) persistProject(); }, []);
+
+  // CANCELLATION - each blocking AI operation gets its own controller so the overlay can abort it
+  const operationControllerRef = useRef<AbortController | null>(null);
+  const orthoControllerRef = useRef<AbortController | null>(null);
+
+  const beginOperation = (): AbortController => {
+      operationControllerRef.current?.abort();
+      const controller = new AbortController();
+      operationControllerRef.current = controller;
+      return controller;
+  };
+
+  // Returns false if the operation was superseded by a newer one, which then owns the loading state
+  const endOperation = (controller: AbortController): boolean => {
+      if (operationControllerRef.current !== controller) return false;
+      operationControllerRef.current = null;
+      return true;
+  };
+
+  const handleCancelOperation = () => {
+      operationControllerRef.current?.abort();
+  };
+
+  const cancelOrthographicGeneration = () => {
+      orthoControllerRef.current?.abort();
+      orthoControllerRef.current = null;
+      setIsGeneratingOrtho(false);
+  };
+
+  // Abort everything still running when leaving the editor
+  useEffect(() => {
+      return () => {
+          operationControllerRef.current?.abort();
+          orthoControllerRef.current?.abort();
+      };
+  }, []);
+
   // MODE BUTTONS configuration
   const modeButtons = [
       { key: 'upload', label: '이미지업로드' },
@@ -135,6 +312,13 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       { key: 'final', label: '최종도면' }
   ];
 
+  const maskPaintTools: { key: MaskPaintTool, label: string }[] = [
+    { key: 'brush', label: '브러시' },
+    { key: 'eraser', label: '지우개' },
+    { key: 'lasso-add', label: '올가미 +' },
+    { key: 'lasso-subtract', label: '올가미 −' },
+  ];
+
   const sketchTools = [
     { key: 'pen', label: '펜', icon: <PenIcon /> },
     { key: 'line', label: '직선', icon: <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="5" y1="19" x2="19" y2="5"></line></svg> },
@@ -143,8 +327,6 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     { key: 'eraser', label: '지우개', icon: <EraserIcon /> }
   ];
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
   // Auto Fit Zoom Effect
   useEffect(() => {
     if (mode === 'BLUEPRINT' && fitToScreen) {
@@ -169,27 +351,55 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
   }, [mode, fitToScreen]);
 
   // Update Image History - Enhanced Logic (10번)
+  // New versions branch off the image they were made from (the current one unless `parentId` is set)
   const addToHistory = (newImage: ImageVariation, snapshotType?: 'pre-sketch' | 'pre-object') => {
       const entry: ImageVariation = {
           ...newImage,
+          parentId: newImage.parentId !== undefined ? newImage.parentId : currentImage?.id ?? null,
           snapshotType // Save snapshot type
       };
       
       setImageHistory(prev => {
           const exists = prev.some(img => img.id === newImage.id);
           if (exists) return prev; 
-          const updated = [...prev, entry];
-          // Limit history size if needed, e.g. 20 items
-          return updated.slice(-20);
+          return [...prev, entry];
       });
       setCurrentImage(entry);
   };
 
+  const handleRenameVersion = (id: string, title: string) => {
+      recordEditorChange('버전 이름 변경');
+      setImageHistory(prev => renameVersion(prev, id, title));
+      setCurrentImage(prev => prev && prev.id === id ? { ...prev, title } : prev);
+  };
+
+  const handleTogglePinVersion = (id: string) => {
+      recordEditorChange('버전 고정');
+      setImageHistory(prev => togglePinned(prev, id));
+  };
+
+  // Compares a version with the one it was made from (the previous version for a root)
+  const handleCompareVersion = (version: ImageVariation) => {
+      const index = imageHistory.findIndex(img => img.id === version.id);
+      const beforeId = version.parentId || imageHistory[index - 1]?.id;
+      if (beforeId) setComparedVersions({ beforeId, afterId: version.id });
+  };
+
+  const handlePruneVersion = (id: string) => {
+      recordEditorChange('버전 삭제');
+      setImageHistory(prev => pruneVersion(prev, id));
+  };
+
   const handleHistoryClick = (img: ImageVariation) => {
+      recordEditorChange('히스토리 이동');
+      cancelOrthographicGeneration();
       setCurrentImage(img);
-      setObjects([]);
+      setObjects(img.objects || []);
+      setObjectsToTrack(null);
+      setLostObjectLabels([]);
       setSelectedObjectId(null);
       setModifiedBoxes({});
+      setModifiedTransforms({});
       setDuplicatedObjectIds(new Set());
       setBlueprintImage(null);
       setIsometricImage(null);
@@ -223,37 +433,95 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     link.click();
   };
 
+  const [isExportingProject, setIsExportingProject] = useState(false);
+
+  // Downloads the whole project as a portable file that can be opened from the home screen
+  const handleExportProject = async () => {
+    setIsExportingProject(true);
+    try {
+        const blob = await exportProjectArchive(buildProject());
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = `${metadata.title.replace(/\s+/g, '_')}_${Date.now()}.zip`;
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error('Project export failed:', error);
+        alert('프로젝트 내보내기 실패');
+    } finally {
+        setIsExportingProject(false);
+    }
+  };
+
+  // Shows the error toast with recovery actions; cancellations are silent
+  const reportError = (err: unknown, fallbackMessage: string, retry?: () => void, canRephrase = false) => {
+      const aiError = classifyAiError(err, fallbackMessage);
+      if (aiError.kind === 'cancelled') return;
+      setError({ error: aiError, retry, canRephrase });
+  };
+
+  const handleRephrasePrompt = () => {
+      setError(null);
+      promptInputRef.current?.focus();
+      promptInputRef.current?.select();
+  };
+
   const handleSelectKey = async () => {
       if (window.aistudio && window.aistudio.openSelectKey) {
           await window.aistudio.openSelectKey();
       }
   };
 
-  const initFrontView = async () => {
-      if (uploadedFiles && uploadedFiles.length > 0) {
+  // Resolves to true once a new studio shot has been added to the history
+  const initFrontView = async (
+      options: GenerationOptions = {},
+      retry: () => void = () => { initFrontView(options); }
+  ): Promise<boolean> => {
+      if (sourceFiles.length > 0) {
+        const controller = beginOperation();
         try {
             setGenerationStatus('generating');
             setLoadingMessage('스튜디오샷으로 변경중...');
             setViewPhase('INITIALIZING');
-            const frontViewBase64 = await generateFrontViewFromUploads(uploadedFiles);
+            const hero = sourceFiles[heroFileIndex] ?? sourceFiles[0];
+            const uploads = [hero, ...sourceFiles.filter(file => file !== hero)];
+            const frontView = await generateFrontViewFromUploads(uploads, getStudioPreset(studioPresetId), options, controller.signal);
             const newImage: ImageVariation = {
                 id: `front-view-gen-${Date.now()}`,
                 title: 'Generated Front View',
                 description: 'Orthographic Front View',
-                imageUrl: `data:image/png;base64,${frontViewBase64}`,
+                imageUrl: `data:image/png;base64,${frontView.base64Data}`,
                 createdAt: new Date(),
-                snapshotType: 'pre-object' // Initial snapshot is pre-object editing
+                snapshotType: 'pre-object', // Initial snapshot is pre-object editing
+                promptTemplate: frontView.promptTemplate,
+                parentId: null,
+                operation: 'initial'
             };
             addToHistory(newImage);
             setViewPhase('EDITING');
+            return true;
         } catch (err) {
-            setError(err instanceof Error ? err.message : "Failed to generate front view.");
+            if (isCancelledError(err)) {
+                // Back to where the user was; without any image yet that is the upload screen
+                if (operationControllerRef.current === controller) {
+                    if (!currentImage) setMode('UPLOAD');
+                    setViewPhase('EDITING');
+                }
+                return false;
+            }
+            reportError(err, "Failed to generate front view.", retry);
+            // Same as a cancel: without any image the editor can only show the upload screen (and the toast)
+            if (!currentImage) setMode('UPLOAD');
             setViewPhase('EDITING');
         } finally {
-            setGenerationStatus('idle');
-            setLoadingMessage('');
+            if (endOperation(controller)) {
+                setGenerationStatus('idle');
+                setLoadingMessage('');
+            }
         }
       }
+      return false;
   };
 
   // -- PHASE 1: INITIALIZATION --
@@ -261,38 +529,108 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       if (viewPhase === 'INITIALIZING' && !currentImage && generationStatus === 'idle') {
           initFrontView();
       }
-  }, [uploadedFiles, viewPhase, currentImage, generationStatus]);
-
+  }, [sourceFiles, viewPhase, currentImage, generationStatus]);
+
+  // The new studio shot becomes a new root version; the previous image and everything made from it
+  // stay in the history, and undo brings back the editor as it was.
+  const regenerateFrontView = async () => {
+      // The user asked for a new result, so skip the generation cache
+      const before = captureEditorSnapshot();
+      const succeeded = await initFrontView({ bypassCache: true }, regenerateFrontView);
+      if (!succeeded) return;
+      recordCommand('global', '스튜디오샷 재생성', before, captureEditorSnapshot, restoreEditorSnapshot);
+      cancelOrthographicGeneration();
+      setObjects([]);
+      setSelectedObjectId(null);
+      setModifiedBoxes({});
+      setModifiedTransforms({});
+      setDuplicatedObjectIds(new Set());
+      setBlueprintImage(null);
+      setIsometricImage(null);
+      setOrthographicViews(null);
+      sketchLayerRef.current?.clear();
+  };
 
-  const handleRegenerate = () => {
-      if (window.confirm("이미지를 재생성 하시겠습니까? 현재 작업 내용은 저장되지 않을 수 있습니다.")) {
-        setObjects([]);
-        setSelectedObjectId(null);
-        setBlueprintImage(null);
-        setIsometricImage(null);
-        setOrthographicViews(null);
-        sketchLayerRef.current?.clear();
-        initFrontView();
-      }
+  const handleStudioPresetChange = (presetId: string) => {
+      setStudioPresetId(presetId);
+      setLastUsedStudioPresetId(presetId);
   };
 
   const handleRegenerateBlueprint = () => {
-      setIsometricImage(null);
-      setOrthographicViews(null);
-      handleBlueprintStart();
+      // The previous drawing stays visible until the new one replaces it (or the user cancels).
+      // The user asked for a new drawing, so skip the generation cache.
+      handleBlueprintStart(true);
   }
   
-  // Handles new file upload from within Editor
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e.target.files && e.target.files.length > 0) {
-         if (window.confirm("새 이미지를 업로드하면 현재 작업이 초기화됩니다. 계속하시겠습니까?")) {
-             window.location.reload(); 
-         }
-      }
+  // SOURCE PHOTOS - edits are undoable; the hero index follows its photo through removals and moves
+  const recordSourcePhotoChange = () =>
+      recordCommand('global', '사진 변경', { files: sourceFiles, hero: heroFileIndex },
+          () => ({ files: editorStateRef.current.sourceFiles, hero: editorStateRef.current.heroFileIndex }),
+          ({ files, hero }) => { setSourceFiles(files); setHeroFileIndex(hero); });
+
+  const handleAddSourcePhotos = (files: File[]) => {
+      recordSourcePhotoChange();
+      setSourceFiles(prev => [...prev, ...files]);
+  };
+
+  const handleRemoveSourcePhoto = (index: number) => {
+      recordSourcePhotoChange();
+      setSourceFiles(prev => prev.filter((_, i) => i !== index));
+      setHeroFileIndex(hero => hero === index ? 0 : hero > index ? hero - 1 : hero);
+  };
+
+  const handleMoveSourcePhoto = (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= sourceFiles.length) return;
+      recordSourcePhotoChange();
+      setSourceFiles(prev => {
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+      setHeroFileIndex(hero => hero === index ? target : hero === target ? index : hero);
+  };
+
+  const handleSetHeroPhoto = (index: number) => {
+      recordSourcePhotoChange();
+      setHeroFileIndex(index);
   };
 
   const selectedObject = selectedObjectId ? findObjectById(objects, selectedObjectId) : null;
   const childObjectsOfSelected = selectedObject ? getAllChildObjects(selectedObject) : [];
+  const groupObjects = useMemo(
+    () => groupSelection.map(id => findObjectById(objects, id)).filter((o): o is DetectedObject => !!o),
+    [groupSelection, objects]
+  );
+  const isGroupSelected = groupObjects.length > 1;
+
+  // Click selects one object, shift-click adds it to (or removes it from) the selection
+  const selectObject = (id: string, additive = false) => {
+    if (!additive) {
+      setSelectedObjectId(id);
+      setGroupSelection([]);
+      return;
+    }
+    const current = groupSelection.length > 0 ? groupSelection : (selectedObjectId ? [selectedObjectId] : []);
+    const next = current.includes(id) ? current.filter(other => other !== id) : [...current, id];
+    setGroupSelection(next.length > 1 ? next : []);
+    setSelectedObjectId(next.includes(id) ? id : next[next.length - 1] ?? null);
+  };
+
+  // Drops the group once its primary object is deselected some other way or members disappear
+  useEffect(() => {
+    setGroupSelection(prev => {
+      if (prev.length === 0) return prev;
+      const next = prev.filter(id => findObjectById(objects, id));
+      return selectedObjectId && next.includes(selectedObjectId) && next.length > 1 ? next : [];
+    });
+  }, [objects, selectedObjectId]);
+
+  useEffect(() => {
+    if (Object.keys(modifiedBoxes).length === 0) setArrangementNotes([]);
+  }, [modifiedBoxes]);
+
+  const getGroupBoxes = () => Object.fromEntries(groupObjects.map(o => [o.id, modifiedBoxes[o.id] || o.box]));
 
   const movedObjects = useMemo(() => {
     if (objects.length === 0) return [];
@@ -301,6 +639,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
         const originalBox = obj.box;
         const modifiedBox = modifiedBoxes[obj.id];
         if (!modifiedBox) return false;
+        if (!isIdentityTransform(modifiedTransforms[obj.id])) return true;
         const tolerance = 0.001; 
         return (
             Math.abs(originalBox.xMin - modifiedBox.xMin) > tolerance ||
@@ -309,7 +648,12 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
             Math.abs(originalBox.yMax - modifiedBox.yMax) > tolerance
         );
     });
-  }, [objects, modifiedBoxes]);
+  }, [objects, modifiedBoxes, modifiedTransforms]);
+
+  const previewMoves = useMemo<PreviewMove[]>(() => movedObjects.map(obj => ({
+    id: obj.id, mask: obj.mask, box: obj.box, newBox: modifiedBoxes[obj.id]!,
+    transform: modifiedTransforms[obj.id], duplicate: duplicatedObjectIds.has(obj.id),
+  })), [movedObjects, modifiedBoxes, modifiedTransforms, duplicatedObjectIds]);
 
   const processApiObjects = useCallback(async (apiObjects: ApiObject[], imageEl: HTMLImageElement) => {
     const originalIdToNewObjectMap = new Map<string, DetectedObject>();
@@ -317,9 +661,9 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
         apiObjects.map(async (item, i) => {
             const uniqueId = `client-${item.label.replace(/\s/g, '-')}-${i}-${Math.random()}`;
             const box: BoundingBox = { yMin: item.box_2d[0], xMin: item.box_2d[1], yMax: item.box_2d[2], xMax: item.box_2d[3] };
-            const mask = createMaskFromBox(box, imageEl.naturalWidth, imageEl.naturalHeight);
+            const { mask, source } = await createObjectMask(item.mask, box, imageEl);
             const newObject: DetectedObject & { _originalParentId?: string | null } = {
-                id: uniqueId, label: item.label, box: box, mask: mask, children: [],
+                id: uniqueId, label: item.label, box: box, mask: mask, maskSource: source, children: [],
                 thumbnailUrl: cropImage(imageEl, box), _originalParentId: item.parentId,
             };
             if (item.id) originalIdToNewObjectMap.set(item.id, newObject);
@@ -337,20 +681,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       delete newObject._originalParentId;
     }
 
-    // Expand parent boxes to fully enclose children
-    const expandParentBoxes = (obj: DetectedObject) => {
-        if (obj.children.length > 0) {
-            obj.children.forEach(child => expandParentBoxes(child));
-            let minX = obj.box.xMin, minY = obj.box.yMin, maxX = obj.box.xMax, maxY = obj.box.yMax;
-            obj.children.forEach(child => {
-                minX = Math.min(minX, child.box.xMin); minY = Math.min(minY, child.box.yMin);
-                maxX = Math.max(maxX, child.box.xMax); maxY = Math.max(maxY, child.box.yMax);
-            });
-            obj.box = { xMin: minX, yMin: minY, xMax: maxX, yMax: maxY };
-            obj.thumbnailUrl = cropImage(imageEl, obj.box);
-        }
-    };
-    roots.forEach(root => expandParentBoxes(root));
+    await Promise.all(roots.map(root => expandParentBoxes(root, imageEl)));
     return roots.filter(r => !(roots.flatMap(root => root.children.map(c => c.id)).includes(r.id)));
   }, []);
 
@@ -376,10 +707,166 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
         height: imgRect.height 
     });
   }, [mode]);
+
+  // Draw a reopened project's sketch once the canvas is laid out (resizing the canvas wipes it)
+  useEffect(() => {
+    const sketch = pendingSketchRef.current;
+    if (!sketch || imageLayout.width <= 1 || imageLayout.height <= 1 || !sketchLayerRef.current) return;
+    pendingSketchRef.current = null;
+    sketchLayerRef.current.drawSketch(sketch).catch(e => console.warn('Could not restore the sketch:', e));
+  }, [imageLayout]);
   
-  const handleObjectDetection = useCallback(async () => {
+  // Keeps the detected tree on the history entry so revisiting the image restores it
+  const rememberObjects = (imageId: string, tree: DetectedObject[]) => {
+    setImageHistory(prev => prev.map(img => img.id === imageId ? { ...img, objects: tree } : img));
+    setCurrentImage(prev => prev && prev.id === imageId ? { ...prev, objects: tree } : prev);
+  };
+
+  // ----------------------
+  // UNDO / REDO
+  // ----------------------
+
+  const [commandHistory, setCommandHistory] = useState<CommandHistory>(EMPTY_HISTORY);
+  const commandHistoryRef = useRef(commandHistory);
+  // Latest state for the snapshots taken at undo time (handlers may hold an older render)
+  const editorStateRef = useRef({ mode, currentImage, imageHistory, blueprintImage, isometricImage, orthographicViews, objects, modifiedBoxes, modifiedTransforms, duplicatedObjectIds, arrangementNotes, exportDimensions, metadata, sourceFiles, heroFileIndex });
+  editorStateRef.current = { mode, currentImage, imageHistory, blueprintImage, isometricImage, orthographicViews, objects, modifiedBoxes, modifiedTransforms, duplicatedObjectIds, arrangementNotes, exportDimensions, metadata, sourceFiles, heroFileIndex };
+
+  const updateCommandHistory = (next: CommandHistory) => {
+      commandHistoryRef.current = next;
+      setCommandHistory(next);
+  };
+
+  // Call right before making a change: undo puts `before` back and keeps what it replaced for redo
+  const recordCommand = <T,>(scope: CommandScope, label: string, before: T, capture: () => T, restore: (state: T) => void) => {
+      let after: T | null = null;
+      updateCommandHistory(pushCommand(commandHistoryRef.current, {
+          label,
+          scope,
+          undo: () => { after = capture(); restore(before); },
+          redo: () => { if (after !== null) restore(after); },
+      }));
+  };
+
+  const captureObjectState = (): ObjectEditState => {
+      const state = editorStateRef.current;
+      return {
+          objects: state.objects,
+          rememberedObjects: state.currentImage?.objects,
+          modifiedBoxes: state.modifiedBoxes,
+          modifiedTransforms: state.modifiedTransforms,
+          duplicatedObjectIds: state.duplicatedObjectIds,
+          arrangementNotes: state.arrangementNotes,
+      };
+  };
+
+  const restoreObjectState = (state: ObjectEditState, remember = true) => {
+      setObjects(state.objects);
+      setModifiedBoxes(state.modifiedBoxes);
+      setModifiedTransforms(state.modifiedTransforms);
+      setDuplicatedObjectIds(state.duplicatedObjectIds);
+      setArrangementNotes(state.arrangementNotes);
+      setSelectedObjectId(prev => prev && findObjectById(state.objects, prev) ? prev : null);
+      const image = editorStateRef.current.currentImage;
+      if (remember && image && state.rememberedObjects) rememberObjects(image.id, state.rememberedObjects);
+  };
+
+  const recordObjectChange = (label: string, before = captureObjectState()) =>
+      recordCommand('object', label, before, captureObjectState, restoreObjectState);
+
+  // Image and mode changes: everything the editor shows goes back, pending work on the image included
+  const captureEditorSnapshot = () => {
+      const state = editorStateRef.current;
+      // A blank canvas is restored by clearing, so only keep pixels when there is a sketch
+      const sketch = sketchLayerRef.current?.getSnapshot() ?? null;
+      return {
+          mode: state.mode,
+          currentImage: state.currentImage,
+          imageHistory: state.imageHistory,
+          blueprintImage: state.blueprintImage,
+          isometricImage: state.isometricImage,
+          orthographicViews: state.orthographicViews,
+          objectState: captureObjectState(),
+          sketch: sketch && !isBlankSnapshot(sketch) ? sketch : null,
+      };
+  };
+
+  const restoreEditorSnapshot = (snapshot: ReturnType<typeof captureEditorSnapshot>) => {
+      cancelOrthographicGeneration();
+      setMode(snapshot.mode);
+      setShowTechnicalExport(snapshot.mode === 'FINAL');
+      setCurrentImage(snapshot.currentImage);
+      setImageHistory(snapshot.imageHistory);
+      setBlueprintImage(snapshot.blueprintImage);
+      setIsometricImage(snapshot.isometricImage);
+      setOrthographicViews(snapshot.orthographicViews);
+      restoreObjectState(snapshot.objectState, false);
+      setObjectsToTrack(null);
+      setLostObjectLabels([]);
+      setVariationsToSelect(null);
+      setSelectedObjectId(null);
+      setGroupSelection([]);
+      if (snapshot.sketch) sketchLayerRef.current?.restoreSnapshot(snapshot.sketch);
+      else sketchLayerRef.current?.clear();
+  };
+
+  const recordEditorChange = (label: string) =>
+      recordCommand('global', label, captureEditorSnapshot(), captureEditorSnapshot, restoreEditorSnapshot);
+
+  const changeMode = (next: EditorMode) => {
+      if (next !== mode) recordEditorChange('모드 전환');
+      setMode(next);
+  };
+
+  const handleSketchStrokeStart = (before: ImageData) => {
+      recordCommand<ImageData | null>('sketch', '스케치', before,
+          () => sketchLayerRef.current?.getSnapshot() ?? null,
+          data => {
+              if (data) sketchLayerRef.current?.restoreSnapshot(data);
+              setSketchRevision(r => r + 1);
+          });
+  };
+
+  const handleSketchStrokeEnd = () => setSketchRevision(r => r + 1);
+
+  const handleClearSketch = () => {
+      const before = sketchLayerRef.current?.getSnapshot();
+      if (before) handleSketchStrokeStart(before);
+      sketchLayerRef.current?.clear();
+      setSketchRevision(r => r + 1);
+  };
+
+  const handleDimensionsChange = (next: Dimension[]) => {
+      recordCommand('dimensions', '치수', editorStateRef.current.exportDimensions, () => editorStateRef.current.exportDimensions, setExportDimensions);
+      setExportDimensions(next);
+  };
+
+  const handleMetadataChange = (next: typeof metadata) => {
+      const before = editorStateRef.current.metadata;
+      if (next.title === before.title && next.date === before.date && next.notes === before.notes) return;
+      recordCommand('metadata', '도면 정보', before, () => editorStateRef.current.metadata, setMetadata);
+      setMetadata(next);
+  };
+
+  // One undo step per box drag (move, resize or rotate), recorded once the gesture changed something
+  const boxDragStartRef = useRef<ObjectEditState | null>(null);
+  const handleBoxDragStart = () => {
+      boxDragStartRef.current = captureObjectState();
+  };
+  const handleBoxDragEnd = () => {
+      const before = boxDragStartRef.current;
+      boxDragStartRef.current = null;
+      const state = editorStateRef.current;
+      if (before && (before.modifiedBoxes !== state.modifiedBoxes || before.modifiedTransforms !== state.modifiedTransforms)) {
+          recordObjectChange('이동', before);
+      }
+  };
+
+  // With `previousObjects`, the fresh detections are matched to that tree so ids, names and
+  // expansion carry over from the image the edit was made on
+  const handleObjectDetection = useCallback(async (previousObjects?: DetectedObject[]) => {
     if (!currentImage) return;
-    if (currentImage.objects && currentImage.objects.length > 0) {
+    if (!previousObjects && currentImage.objects && currentImage.objects.length > 0) {
         setObjects(currentImage.objects);
         return;
     }
@@ -387,6 +874,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     if (!img) return;
     if (!img.complete || img.naturalHeight === 0) await new Promise(resolve => { img.onload = resolve; });
 
+    const controller = beginOperation();
     setIsLoading(true);
     setLoadingMessage('객체 감지 중...');
     setError(null);
@@ -395,19 +883,50 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       const base64Data = currentImage.imageUrl.split(',')[1];
       const mimeType = currentImage.imageUrl.match(/data:(.*);/)?.[1] || 'image/png';
       
-      const apiObjects = await segmentObjectsInImage(base64Data, mimeType);
-      const objectTree = await processApiObjects(apiObjects, img);
+      const apiObjects = await segmentObjectsInImage(base64Data, mimeType, controller.signal);
+      const detectedTree = await processApiObjects(apiObjects, img);
+      let objectTree = detectedTree;
+      if (previousObjects) {
+          const match = matchObjectTrees(previousObjects, detectedTree);
+          objectTree = match.objects;
+          setLostObjectLabels(match.lost.map(o => o.label));
+          // Tracked objects keep their expansion; new parents start expanded
+          setExpandedObjectIds(prev => new Set(getAllObjects(objectTree)
+              .filter(o => o.children.length > 0 && (o.trackingStatus === 'new' || prev.has(o.id)))
+              .map(o => o.id)));
+          setSelectedObjectId(prev => prev && findObjectById(objectTree, prev) ? prev : null);
+      } else {
+          setLostObjectLabels([]);
+          setExpandedObjectIds(new Set(objectTree.filter(o => o.children.length > 0).map(obj => obj.id)));
+          recordObjectChange('객체 감지');
+      }
       
       setObjects(objectTree);
-      setExpandedObjectIds(new Set(objectTree.filter(o => o.children.length > 0).map(obj => obj.id)));
+      rememberObjects(currentImage.id, objectTree);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to segment image.');
+      reportError(err, 'Failed to segment image.', () => { handleObjectDetection(previousObjects); });
     } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+      if (endOperation(controller)) {
+        setIsLoading(false);
+        setLoadingMessage('');
+      }
     }
   }, [processApiObjects, currentImage]);
 
+  // A drawn box belongs to the image it was drawn on
+  useEffect(() => {
+    setIsDrawingObject(false);
+    setNewObjectDraft(null);
+  }, [currentImage?.id]);
+
+  // Runs the tracking detection once the picked variation is the current image
+  useEffect(() => {
+    if (!objectsToTrack || !currentImage || generationStatus !== 'idle' || isLoading) return;
+    const previous = objectsToTrack;
+    setObjectsToTrack(null);
+    handleObjectDetection(previous);
+  }, [objectsToTrack, currentImage, generationStatus, isLoading, handleObjectDetection]);
+
   const handleBoxUpdate = useCallback((newPixelBox: {x:number, y:number, width:number, height:number}) => {
     setInteractiveBox(newPixelBox);
     if (selectedObjectId && imageLayout.width > 1 && imageLayout.height > 1 && selectedObject) {
@@ -417,13 +936,23 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
         xMax: Math.min(1000, ((newPixelBox.x + newPixelBox.width - imageLayout.left) / imageLayout.width) * 1000),
         yMax: Math.min(1000, ((newPixelBox.y + newPixelBox.height - imageLayout.top) / imageLayout.height) * 1000),
       };
-      setModifiedBoxes(prev => ({ ...prev, [selectedObjectId]: newParentBox }));
+      if (isGroupSelected) {
+        // The box is the group's bounds; every member moves and scales with it
+        setModifiedBoxes(prev => {
+          const boxes = Object.fromEntries(groupObjects.map(o => [o.id, prev[o.id] || o.box]));
+          return { ...prev, ...transformBoxes(boxes, unionBox(Object.values(boxes)), newParentBox) };
+        });
+      } else {
+        setModifiedBoxes(prev => ({ ...prev, [selectedObjectId]: newParentBox }));
+      }
     }
-  }, [selectedObjectId, selectedObject, imageLayout]);
+  }, [selectedObjectId, selectedObject, imageLayout, isGroupSelected, groupObjects]);
 
   useEffect(() => {
     if (selectedObject && selectedObjectId && mode === 'OBJECT') {
-      const boxToUse = modifiedBoxes[selectedObjectId] || selectedObject.box;
+      const boxToUse = isGroupSelected
+        ? unionBox(groupObjects.map(o => modifiedBoxes[o.id] || o.box))
+        : modifiedBoxes[selectedObjectId] || selectedObject.box;
       setInteractiveBox({
           x: (boxToUse.xMin / 1000) * imageLayout.width + imageLayout.left,
           y: (boxToUse.yMin / 1000) * imageLayout.height + imageLayout.top,
@@ -433,7 +962,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     } else {
         setInteractiveBox(null);
     }
-  }, [selectedObjectId, selectedObject, imageLayout, modifiedBoxes, mode]);
+  }, [selectedObjectId, selectedObject, imageLayout, modifiedBoxes, mode, isGroupSelected, groupObjects]);
 
   useEffect(() => {
     const observer = new ResizeObserver(() => calculateLayout());
@@ -448,6 +977,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
 
   const handleCopyObject = () => {
     if (!selectedObject) return;
+    recordObjectChange('객체 복제');
     const newId = `dup-${Date.now()}`;
     const newObj: DetectedObject = { ...selectedObject, id: newId, label: `${selectedObject.label} (Copy)`, children: [] };
     setObjects(prev => [...prev, newObj]);
@@ -467,6 +997,154 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       handleApplyEditInternal(`Remove the object '${selectedObject.label}' from the scene completely. Fill the space with background.`);
   };
 
+  // Manual edits to the object tree; the result is kept on the history entry like a detection
+  const commitObjectTree = (tree: DetectedObject[]) => {
+      setObjects(tree);
+      if (currentImage) rememberObjects(currentImage.id, tree);
+  };
+
+  const handleRenameObject = (id: string, label: string) => {
+      if (findObjectById(objects, id)?.label === label) return;
+      recordObjectChange('이름 변경');
+      commitObjectTree(renameObject(objects, id, label));
+  };
+
+  const handleReparentObject = async (id: string, newParentId: string | null) => {
+      const img = imageRef.current;
+      if (!img || !canReparent(objects, id, newParentId)) return;
+      const tree = await reparentObject(objects, id, newParentId, img);
+      recordObjectChange('계층 이동');
+      commitObjectTree(tree);
+      if (newParentId) setExpandedObjectIds(prev => new Set(prev).add(newParentId));
+  };
+
+  const handleMergeObjects = async () => {
+      const img = imageRef.current;
+      const other = mergeCandidateId ? findObjectById(objects, mergeCandidateId) : null;
+      if (!img || !selectedObject || !other) return;
+      const tree = await mergeObjects(objects, selectedObject.id, other.id, `${selectedObject.label} + ${other.label}`, img);
+      if (tree === objects) return;
+      recordObjectChange('병합');
+      commitObjectTree(tree);
+      const merged = getAllObjects(tree).find(o => o.children.some(c => c.id === selectedObject.id));
+      if (merged) setSelectedObjectId(merged.id);
+      setMergeCandidateId('');
+  };
+
+  const handleNewObjectBox = (box: BoundingBox) => {
+      setIsDrawingObject(false);
+      setNewObjectDraft({ box, label: '', parentId: selectedObjectId || '' });
+  };
+
+  const handleSuggestObjectName = async () => {
+      const img = imageRef.current;
+      if (!img || !newObjectDraft) return;
+      const crop = cropImage(img, newObjectDraft.box);
+      if (!crop) return;
+      const parent = newObjectDraft.parentId ? findObjectById(objects, newObjectDraft.parentId) : null;
+      setIsNamingRegion(true);
+      try {
+          const label = await nameImageRegion(crop.split(',')[1], 'image/png', parent?.label);
+          if (label) setNewObjectDraft(draft => draft && !draft.label.trim() ? { ...draft, label } : draft);
+      } catch (err) {
+          reportError(err, 'Could not suggest a name for the region.');
+      } finally {
+          setIsNamingRegion(false);
+      }
+  };
+
+  // A drawn object gets a mask the same way a detection without a model mask does
+  const handleAddDrawnObject = async () => {
+      const img = imageRef.current;
+      if (!img || !newObjectDraft || !newObjectDraft.label.trim()) return;
+      const { box, label, parentId } = newObjectDraft;
+      const { mask, source } = await createObjectMask(undefined, box, img);
+      const newObject: DetectedObject = {
+          id: `manual-${Date.now()}`, label: label.trim(), box, mask, maskSource: source, children: [],
+          thumbnailUrl: cropImage(img, box),
+      };
+      const tree = await addObject(objects, newObject, parentId || null, img);
+      recordObjectChange('객체 추가');
+      commitObjectTree(tree);
+      if (parentId) setExpandedObjectIds(prev => new Set(prev).add(parentId));
+      setSelectedObjectId(newObject.id);
+      setNewObjectDraft(null);
+  };
+
+  const handleSplitObject = () => {
+      if (!selectedObject || selectedObject.children.length === 0) return;
+      recordObjectChange('분리');
+      commitObjectTree(splitObject(objects, selectedObject.id));
+      setSelectedObjectId(null);
+  };
+
+  // Rotation and mirroring also pin the object's box, so it goes through reposition like a move
+  const updateTransform = (ids: string[], update: (transform: ObjectTransform) => ObjectTransform) => {
+      const targets = ids.map(id => findObjectById(objects, id)).filter((o): o is DetectedObject => !!o);
+      if (targets.length === 0) return;
+      setModifiedBoxes(prev => ({ ...prev, ...Object.fromEntries(targets.map(o => [o.id, prev[o.id] || o.box])) }));
+      setModifiedTransforms(prev => ({
+          ...prev,
+          ...Object.fromEntries(targets.map(o => [o.id, update(prev[o.id] || { rotation: 0, flipHorizontal: false, flipVertical: false })])),
+      }));
+  };
+
+  const selectedIds = () => isGroupSelected ? groupObjects.map(o => o.id) : selectedObjectId ? [selectedObjectId] : [];
+
+  const handleRotationChange = useCallback((degrees: number) => {
+      if (selectedObjectId) updateTransform([selectedObjectId], t => ({ ...t, rotation: degrees }));
+  }, [selectedObjectId, objects]);
+
+  const handleFlip = (axis: 'horizontal' | 'vertical') => {
+      recordObjectChange('뒤집기');
+      updateTransform(selectedIds(), t => axis === 'horizontal' ? { ...t, flipHorizontal: !t.flipHorizontal } : { ...t, flipVertical: !t.flipVertical });
+  };
+
+  const handleResetOrientation = () => {
+      recordObjectChange('방향 초기화');
+      updateTransform(selectedIds(), () => ({ rotation: 0, flipHorizontal: false, flipVertical: false }));
+  };
+
+  // Picks the smallest object under the click, so a part wins over the whole it belongs to
+  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const x = (e.clientX - rect.left) / rect.width * 1000;
+      const y = (e.clientY - rect.top) / rect.height * 1000;
+      const area = (box: BoundingBox) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+      const hit = getAllObjects(objects)
+          .map(o => ({ id: o.id, box: modifiedBoxes[o.id] || o.box }))
+          .filter(({ box }) => x >= box.xMin && x <= box.xMax && y >= box.yMin && y <= box.yMax)
+          .sort((a, b) => area(a.box) - area(b.box))[0];
+      if (hit) selectObject(hit.id, e.shiftKey);
+      else if (!e.shiftKey) { setSelectedObjectId(null); setGroupSelection([]); }
+  };
+
+  // Align / distribute / match size on the selected group; the note describes the result to the model
+  const applyGroupLayout = (layout: (boxes: Record<string, BoundingBox>) => Record<string, BoundingBox>, note: string) => {
+      if (!isGroupSelected) return;
+      recordObjectChange('정렬');
+      setModifiedBoxes(prev => ({ ...prev, ...layout(getGroupBoxes()) }));
+      setArrangementNotes(prev => [...prev.filter(existing => existing !== note), note]);
+  };
+
+  const groupLabelList = () => groupObjects.map(o => `'${o.label}'`).join(', ');
+
+  const handleAlignGroup = (alignment: BoxAlignment) => {
+      const edge = alignment === 'center' ? 'horizontal centers' : `${alignment} edges`;
+      applyGroupLayout(boxes => alignBoxes(boxes, alignment), `${groupLabelList()} are aligned along their ${edge}.`);
+  };
+
+  const handleDistributeGroup = (axis: BoxAxis) => {
+      applyGroupLayout(boxes => distributeBoxes(boxes, axis), `${groupLabelList()} are evenly spaced ${axis === 'horizontal' ? 'left to right' : 'top to bottom'} with equal gaps.`);
+  };
+
+  const handleMatchGroupSize = (dimension: BoxDimension) => {
+      if (!selectedObject) return;
+      const reference = modifiedBoxes[selectedObject.id] || selectedObject.box;
+      const what = dimension === 'both' ? 'size' : dimension;
+      applyGroupLayout(boxes => matchBoxSize(boxes, reference, dimension), `${groupLabelList()} all have the same ${what} as '${selectedObject.label}'.`);
+  };
+
   // Unified Apply Function (8번: 텍스트+편집 통합)
   const handleApplyEdit = async () => {
       // Determines if we are applying text edit, repositioning, or both
@@ -480,18 +1158,55 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       }
   };
 
+  // Composited results are always PNG; the raw output keeps the source type as before
+  const maskedEditUrls = (img: GeneratedImage, mimeType: string) => img.rawBase64Data
+      ? { imageUrl: `data:image/png;base64,${img.base64Data}`, rawImageUrl: `data:${mimeType};base64,${img.rawBase64Data}` }
+      : { imageUrl: `data:${mimeType};base64,${img.base64Data}` };
+
+  // Streams edit candidates into the selector as they finish; throws if none of them succeeded
+  const collectCandidates = async (
+      candidates: AsyncGenerator<CandidateUpdate>,
+      toVariation: (image: GeneratedImage, index: number) => ImageVariation
+  ) => {
+      let firstError: AiError | null = null;
+      let succeeded = 0;
+      setVariationsToSelect([]);
+      setPendingCandidateCount(candidateCount);
+
+      for await (const update of candidates) {
+          setPendingCandidateCount(count => Math.max(0, count - 1));
+          if (update.status === 'done') {
+              succeeded++;
+              const variation = toVariation(update.image, update.index);
+              // null means the user already picked a candidate or closed the selector
+              setVariationsToSelect(prev => prev ? [...prev, variation] : prev);
+          } else {
+              console.warn(`Candidate ${update.index + 1} failed:`, update.error);
+              firstError = firstError || update.error;
+          }
+      }
+
+      if (succeeded === 0) {
+          setVariationsToSelect(null);
+          throw firstError || new AiError('No candidates were generated.');
+      }
+  };
+
   const handleApplyReposition = async (hasTextPrompt: boolean) => {
+    const controller = beginOperation();
     setGenerationStatus('generating');
     setLoadingMessage('객체 배치 수정 중...');
     try {
-        const repositionPayload = movedObjects.map(obj => ({ label: obj.label, originalBox: obj.box, newBox: modifiedBoxes[obj.id]! }));
-        let finalInstruction = await generateRepositionPrompt("", repositionPayload);
+        const repositionPayload = movedObjects.map(obj => ({ label: obj.label, originalBox: obj.box, newBox: modifiedBoxes[obj.id]!, transform: modifiedTransforms[obj.id] }));
+        let finalInstruction = await generateRepositionPrompt(repositionPayload, arrangementNotes, controller.signal);
+        // The same moves drawn over the photo: arrows, turned destination boxes and rotation/mirror labels
+        const guideImage = imageRef.current?.complete ? drawMovementInstructions(imageRef.current, repositionPayload) || null : null;
         
         if (hasTextPrompt) {
             finalInstruction += `\nADDITIONAL INSTRUCTION: ${prompt}`;
         }
 
-        const boxesToMask: BoundingBox[] = [];
+        const regionsToMask: MaskRegion[] = [];
         const duplicates = movedObjects.filter(obj => duplicatedObjectIds.has(obj.id));
         
         if (duplicates.length > 0) {
@@ -499,27 +1214,29 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
             finalInstruction = `ACTION: DUPLICATE the following objects: ${dupLabels}. \n${finalInstruction}`;
         }
         
+        // The object's own outline at the old spot, the same outline moved/scaled to the new spot
         movedObjects.forEach(obj => {
-            if (duplicatedObjectIds.has(obj.id)) {
-                const newBox = modifiedBoxes[obj.id]; if (newBox) boxesToMask.push(newBox);
-            } else {
-                boxesToMask.push(obj.box);
-                const newBox = modifiedBoxes[obj.id]; if (newBox) boxesToMask.push(newBox);
-            }
+            if (!duplicatedObjectIds.has(obj.id)) regionsToMask.push({ box: obj.box, mask: obj.mask });
+            const newBox = modifiedBoxes[obj.id]; if (!newBox) return;
+            const transform = modifiedTransforms[obj.id];
+            if (isIdentityTransform(transform)) regionsToMask.push({ box: newBox, mask: obj.mask, sourceBox: obj.box });
+            // A turned or mirrored outline no longer matches the mask, so free the whole area it can cover
+            else regionsToMask.push({ box: rotatedBounds(newBox, transform!.rotation, imgSize.width / Math.max(1, imgSize.height)) });
         });
         
-        const maskBase64 = createCombinedMask(boxesToMask, imgSize.width, imgSize.height, 20); 
+        const maskBase64 = await createCombinedMask(regionsToMask, imgSize.width, imgSize.height, 20); 
         const base64Data = currentImage!.imageUrl.split(',')[1];
         const mimeType = currentImage!.imageUrl.match(/data:(.*);/)?.[1] || 'image/png';
-        const newImageBase64Array = await applyRepositionEdit(base64Data, maskBase64, mimeType, finalInstruction);
-        
-        // Variations selection handled by component, but here we just take the first or let user choose
-        const newVariations = newImageBase64Array.map((b64, i) => ({ id: `reposition-${Date.now()}-${i}`, title: `Variation ${i + 1}`, description: "Applied geometric changes", imageUrl: `data:${mimeType};base64,${b64}`, createdAt: new Date(), snapshotType: 'pre-object' as const }));
-        setVariationsToSelect(newVariations);
-        setModifiedBoxes({});
-        setDuplicatedObjectIds(new Set());
-        setPrompt('');
-    } catch (e) { setError(e instanceof Error ? e.message : "Reposition failed"); } finally { setGenerationStatus('idle'); setLoadingMessage(''); }
+        // Moved boxes and the prompt stay until a candidate is picked, so cancelling keeps the edit
+        await collectCandidates(
+            applyRepositionEdit(base64Data, maskBase64, mimeType, finalInstruction, guideImage, candidateCount, { compositeFeather }, controller.signal),
+            (img, i) => ({ id: `reposition-${Date.now()}-${i}`, title: `Variation ${i + 1}`, description: "Applied geometric changes", ...maskedEditUrls(img, mimeType), createdAt: new Date(), snapshotType: 'pre-object', promptTemplate: img.promptTemplate, operation: 'reposition' })
+        );
+    } catch (e) {
+        reportError(e, "Reposition failed", () => { handleApplyReposition(hasTextPrompt); }, hasTextPrompt);
+    } finally {
+        if (endOperation(controller)) { setGenerationStatus('idle'); setLoadingMessage(''); }
+    }
   };
 
   const handleApplyEditInternal = async (customPrompt?: string) => {
@@ -529,20 +1246,27 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     if (mode === 'SKETCH') {
         const sketchDataUrl = sketchLayerRef.current?.getSketchDataUrl();
         if (!sketchDataUrl) { console.error("❌ No sketch data found!"); return; }
+        const controller = beginOperation();
         setGenerationStatus('generating');
         setLoadingMessage('스케치를 반영하여 생성 중...');
         try {
             const base64 = currentImage.imageUrl.split(',')[1];
-            const newImages = await editImageWithSketch(base64, sketchDataUrl, promptToUse);
-            const newVariations = newImages.map((b64, i) => ({ id: `sketch-edit-${Date.now()}-${i}`, title: `Sketch Variation ${i + 1}`, description: promptToUse, imageUrl: `data:image/png;base64,${b64}`, createdAt: new Date(), snapshotType: 'pre-sketch' as const }));
-            setVariationsToSelect(newVariations);
-        } catch (e) { setError(e instanceof Error ? e.message : "Sketch edit failed"); } finally { setGenerationStatus('idle'); setLoadingMessage(''); }
+            await collectCandidates(
+                editImageWithSketch(base64, sketchDataUrl, promptToUse, candidateCount, controller.signal),
+                (img, i) => ({ id: `sketch-edit-${Date.now()}-${i}`, title: `Sketch Variation ${i + 1}`, description: promptToUse, imageUrl: `data:image/png;base64,${img.base64Data}`, createdAt: new Date(), snapshotType: 'pre-sketch', promptTemplate: img.promptTemplate, operation: 'sketch' })
+            );
+        } catch (e) {
+            reportError(e, "Sketch edit failed", () => { handleApplyEditInternal(promptToUse); }, true);
+        } finally {
+            if (endOperation(controller)) { setGenerationStatus('idle'); setLoadingMessage(''); }
+        }
         return;
     }
 
     if ((!promptToUse && !customPrompt)) return;
     
     // Object mode edit
+    const controller = beginOperation();
     setGenerationStatus('generating');
     setLoadingMessage('이미지 편집 중...');
     setError(null);
@@ -551,9 +1275,13 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
         const mimeType = currentImage.imageUrl.match(/data:(.*);/)?.[1] || 'image/png';
         let maskBase64 = "";
 
-        if (selectedObject) {
+        if (hasPaintedMask && maskPaintLayerRef.current) {
+            maskBase64 = maskPaintLayerRef.current.getMaskBase64();
+        } else if (selectedObject) {
             const boxToUse = modifiedBoxes[selectedObject.id] || selectedObject.box;
-            maskBase64 = createMaskFromBox(boxToUse, imgSize.width, imgSize.height);
+            // Slight padding so the edit blends past the object outline
+            const padding = selectedObject.maskSource === 'box' ? 0 : 6;
+            maskBase64 = await createCombinedMask([{ box: boxToUse, mask: selectedObject.mask, sourceBox: selectedObject.box }], imgSize.width, imgSize.height, padding);
         } else {
              // If no object selected, maybe global edit or fail? For now let's assume global edit isn't supported in Object Mode without selection or use entire image
              // Assuming mask required for `editImageWithMask`. If full edit desired, we need a different service call or full mask.
@@ -562,26 +1290,50 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
              const ctx = canvas.getContext('2d'); if(ctx) { ctx.fillStyle = 'white'; ctx.fillRect(0,0,imgSize.width, imgSize.height); maskBase64 = canvas.toDataURL('image/png').split(',')[1]; }
         }
 
-        const newImageBase64Array = await editImageWithMask(base64Data, mimeType, promptToUse, maskBase64);
-        const newVariations = newImageBase64Array.map((b64, i) => ({ id: `edited-${Date.now()}-${i}`, title: `Variation ${i + 1}`, description: `Result of: "${promptToUse}"`, imageUrl: `data:${mimeType};base64,${b64}`, createdAt: new Date(), snapshotType: 'pre-object' as const }));
-        setVariationsToSelect(newVariations);
-        if (!customPrompt) setPrompt('');
-    } catch (err) { setError(err instanceof Error ? err.message : 'Failed to generate edit.'); } finally { setGenerationStatus('idle'); setLoadingMessage(''); }
+        // Name the part being edited, using the label as the user sees (and may have renamed) it
+        const instruction = selectedObject && !hasPaintedMask && !customPrompt
+            ? `Target object: '${selectedObject.label}'. ${promptToUse}`
+            : promptToUse;
+
+        await collectCandidates(
+            editImageWithMask(base64Data, mimeType, instruction, maskBase64, candidateCount, { compositeFeather }, controller.signal),
+            (img, i) => ({ id: `edited-${Date.now()}-${i}`, title: `Variation ${i + 1}`, description: `Result of: "${promptToUse}"`, ...maskedEditUrls(img, mimeType), createdAt: new Date(), snapshotType: 'pre-object', promptTemplate: img.promptTemplate, operation: 'edit' })
+        );
+    } catch (err) {
+        reportError(err, 'Failed to generate edit.', () => { handleApplyEditInternal(promptToUse); }, true);
+    } finally {
+        if (endOperation(controller)) { setGenerationStatus('idle'); setLoadingMessage(''); }
+    }
+  };
+
+  // Asks before a step that needs `imageCalls` paid generations if it would cross the monthly budget
+  const confirmWithinBudget = (imageCalls: number): boolean => {
+    const check = checkBudget(estimateImageGenerationCost(imageCalls));
+    if (check.status === 'ok' || check.limitUsd === null) return true;
+    const summary = `이번 달 사용액 $${check.monthToDateUsd.toFixed(2)} + 이번 작업 약 $${(check.projectedUsd - check.monthToDateUsd).toFixed(2)} / 예산 $${check.limitUsd.toFixed(2)}`;
+    return window.confirm(check.status === 'exceeded'
+      ? `월 예산을 초과합니다.\n${summary}\n계속하시겠습니까?`
+      : `월 예산에 가까워지고 있습니다.\n${summary}\n계속하시겠습니까?`);
   };
 
-  const handleBlueprintStart = async () => {
+  const handleBlueprintStart = async (fresh = false) => {
     if (!currentImage) return;
+    // Isometric view plus the two orthographic views
+    if (!confirmWithinBudget(3)) return;
     
+    const controller = beginOperation();
     setGenerationStatus('generating');
     try {
         const base64 = currentImage.imageUrl.split(',')[1];
+        const options: GenerationOptions = fresh ? { bypassCache: true } : {};
         
         // Step 1: Generate isometric view (original size)
         setLoadingMessage('로딩중... 3D 아이소메트릭 생성 작업을 하는 중입니다');
-        const isoBase64 = await generate3DIsometric(base64);
+        const iso = await generate3DIsometric(base64, options, controller.signal);
         
         // Step 2: Composite onto 1974x1711 canvas
-        const compositedIsoBase64 = await compositeOntoCanvas(isoBase64, 1974, 1711);
+        const compositedIsoBase64 = await compositeOntoCanvas(iso.base64Data, 1974, 1711);
+        if (controller.signal.aborted) return;
         setIsometricImage(compositedIsoBase64);
         
         const isoImg: ImageVariation = {
@@ -589,30 +1341,84 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
             title: '3D Isometric + Blueprint',
             description: 'Isometric view',
             imageUrl: `data:image/png;base64,${compositedIsoBase64}`,
-            createdAt: new Date()
+            createdAt: new Date(),
+            promptTemplate: iso.promptTemplate,
+            operation: 'blueprint'
         };
         addToHistory(isoImg);
 
-        // Step 3: Background generate orthographic views
+        // Step 3: Background generate orthographic views (cancelled on history click or when leaving the editor)
         setLoadingMessage(''); // Clear main blocker
+        cancelOrthographicGeneration();
+        setOrthographicViews(null);
+        const orthoController = new AbortController();
+        orthoControllerRef.current = orthoController;
         setIsGeneratingOrtho(true);
-        generateOrthographicViews(base64).then(orthoViews => {
+        generateOrthographicViews(base64, options, orthoController.signal).then(orthoViews => {
             setOrthographicViews(orthoViews);
-            setIsGeneratingOrtho(false);
         }).catch(e => {
-            console.error(e);
-            setIsGeneratingOrtho(false);
+            if (!isCancelledError(e)) console.error(e);
+        }).finally(() => {
+            if (orthoControllerRef.current === orthoController) {
+                orthoControllerRef.current = null;
+                setIsGeneratingOrtho(false);
+            }
         });
         
     } catch (e) {
+        if (isCancelledError(e)) return;
         console.error("❌ Blueprint generation error:", e);
-        setError(e instanceof Error ? e.message : "도면 생성 실패");
+        reportError(e, "도면 생성 실패", () => { handleBlueprintStart(fresh); });
         setLoadingMessage('');
     } finally {
-        setGenerationStatus('idle');
+        if (endOperation(controller)) {
+            setGenerationStatus('idle');
+            setLoadingMessage('');
+        }
     }
   };
 
+  // Undo/redo only reach the steps of the active mode (plus image and mode changes), and wait while
+  // a generation or detection is running since its result would land on the restored state
+  const canUseCommandHistory = generationStatus === 'idle' && !isLoading && !variationsToSelect;
+  const nextUndo = canUseCommandHistory ? peekUndo(commandHistory, MODE_COMMAND_SCOPES[mode]) : null;
+  const nextRedo = canUseCommandHistory ? peekRedo(commandHistory, MODE_COMMAND_SCOPES[mode]) : null;
+
+  const handleUndo = () => {
+      if (!canUseCommandHistory) return;
+      const result = takeUndo(commandHistoryRef.current, MODE_COMMAND_SCOPES[mode]);
+      if (!result) return;
+      result.command.undo();
+      updateCommandHistory(result.history);
+  };
+
+  const handleRedo = () => {
+      if (!canUseCommandHistory) return;
+      const result = takeRedo(commandHistoryRef.current, MODE_COMMAND_SCOPES[mode]);
+      if (!result) return;
+      result.command.redo();
+      updateCommandHistory(result.history);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              handleUndo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              handleRedo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, canUseCommandHistory]);
+
   // ----------------------
   // RENDER
   // ----------------------
@@ -626,6 +1432,9 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                   {imageProgressMsg && (
                     <p className="text-blue-400 text-sm font-mono mt-3 animate-pulse">{imageProgressMsg}</p>
                   )}
+                  <button onClick={handleCancelOperation} className="mt-4 px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors">
+                      취소
+                  </button>
               </div>
           </div>
       );
@@ -637,7 +1446,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     <div className="flex flex-col h-screen bg-[#0A0A0B] text-white overflow-hidden">
         
         {/* LOADING OVERLAY - Modern Style */}
-        {(isActionInProgress || loadingMessage) && (
+        {(isActionInProgress || loadingMessage) && !variationsToSelect && (
             <div className="fixed inset-0 bg-black/80 backdrop-blur-md flex items-center justify-center z-50">
                 <div className="bg-gradient-to-br from-gray-900 to-black p-12 rounded-3xl border border-white/10 shadow-2xl text-center max-w-md">
                     <div className="animate-spin w-12 h-12 border-4 border-blue-500/30 border-t-blue-500 mx-auto mb-6 rounded-full"></div>
@@ -646,6 +1455,10 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                     {imageProgressMsg && (
                       <p className="text-blue-400 text-sm font-mono mt-3 animate-pulse">{imageProgressMsg}</p>
                     )}
+                    <button onClick={handleCancelOperation}
+                        className="mt-8 px-6 py-2.5 rounded-xl font-medium text-sm bg-white/10 hover:bg-white/20 text-white border border-white/10 transition-all duration-300">
+                        취소
+                    </button>
                 </div>
             </div>
         )}
@@ -657,8 +1470,17 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                     <svg className="w-6 h-6 text-white flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                     </svg>
-                    <div className="flex-1">
-                        <p className="text-white font-bold text-sm">{error}</p>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-white font-bold text-sm">{getAiErrorTitle(error.error.kind)}</p>
+                        <p className="text-white/90 text-sm mt-1 break-words">{error.error.message}</p>
+                        <div className="mt-3">
+                            <AiErrorRecoveryActions
+                                kind={error.error.kind}
+                                onRetry={error.retry ? () => { const retry = error.retry!; setError(null); retry(); } : undefined}
+                                onRephrase={error.canRephrase ? handleRephrasePrompt : undefined}
+                                buttonClassName="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/20 hover:bg-white/30 text-white transition-colors disabled:opacity-60"
+                            />
+                        </div>
                     </div>
                     <button onClick={() => setError(null)} className="text-white/80 hover:text-white">
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -671,8 +1493,35 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
 
       {/* HEADER - Updated Styling */}
       <div className="flex items-center justify-between h-16 bg-gradient-to-r from-black via-[#0A0A0B] to-black px-8 border-b border-white/5">
-        <div className="text-white text-2xl font-light tracking-widest">♥</div>
+        <button onClick={() => onDone()} title="홈으로 (작업은 자동 저장됩니다)" className="text-white text-2xl font-light tracking-widest hover:opacity-70 transition-opacity">♥</button>
         <div className="flex items-center gap-2">
+            <button
+                onClick={handleUndo}
+                disabled={!nextUndo}
+                title={nextUndo ? `실행취소: ${nextUndo.label} (Ctrl+Z)` : '실행취소 (Ctrl+Z)'}
+                className="px-3 py-2 rounded-lg text-sm bg-white/5 hover:bg-white/10 text-gray-300 transition-colors disabled:opacity-30"
+            >
+                ↶
+            </button>
+            <button
+                onClick={handleRedo}
+                disabled={!nextRedo}
+                title={nextRedo ? `다시실행: ${nextRedo.label} (Ctrl+Shift+Z)` : '다시실행 (Ctrl+Shift+Z)'}
+                className="px-3 py-2 rounded-lg text-sm bg-white/5 hover:bg-white/10 text-gray-300 transition-colors disabled:opacity-30"
+            >
+                ↷
+            </button>
+            <button
+                onClick={handleExportProject}
+                disabled={!currentImage || isExportingProject}
+                title="프로젝트 파일(.zip)로 내보내기"
+                className="px-3 py-2 rounded-lg text-sm bg-white/5 hover:bg-white/10 text-gray-300 transition-colors disabled:opacity-30"
+            >
+                {isExportingProject ? '내보내는 중...' : '내보내기'}
+            </button>
+            <JobQueueIndicator />
+            <UsagePanel projectId={projectId} />
+            <ProviderSelect disabled={isActionInProgress} />
             {!window.aistudio ? null : (
                  <button onClick={handleSelectKey} className="px-4 py-2 bg-blue-600/90 hover:bg-blue-600 text-white rounded-lg text-sm font-medium transition-colors">
                      API 키 선택하기
@@ -688,18 +1537,19 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                 key={btn.key}
                 onClick={() => {
                     if (btn.key === 'upload') {
-                         setMode('UPLOAD');
+                         changeMode('UPLOAD');
                     } else if (btn.key === 'final') {
-                         setMode('FINAL');
+                         changeMode('FINAL');
                          setShowTechnicalExport(true);
                     } else {
+                        // Recorded first so undoing the switch brings the sketch back
+                        const upperMode = btn.key.toUpperCase() as EditorMode;
+                        changeMode(upperMode);
                         // If switching away from Sketch, clear
                         if (mode === 'SKETCH' && btn.key !== 'sketch') {
                             sketchLayerRef.current?.clear();
                             setPrompt('');
                         }
-                        const upperMode = btn.key.toUpperCase() as EditorMode;
-                        setMode(upperMode);
                         if (btn.key === 'blueprint') {
                             setFitToScreen(true);
                         } else {
@@ -723,51 +1573,55 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
 
       <div className="flex-1 min-h-0 flex flex-row overflow-hidden">
         {/* LEFT HISTORY SIDEBAR - Resized and Styled */}
-        <aside className="w-28 bg-black/60 backdrop-blur-xl border-r border-white/10 flex flex-col overflow-y-auto flex-shrink-0 p-2">
-             <h4 className="text-white font-semibold mb-4 text-xs uppercase tracking-wider opacity-60">
-                히스토리
-            </h4>
-            <div className="flex flex-col gap-3">
-                {/* HISTORY LIST */}
-                {[...imageHistory].reverse().map((img, idx) => (
-                    <div 
-                        key={img.id} 
-                        className="group cursor-pointer mb-3 rounded-xl overflow-hidden
-                                   bg-white/5 hover:bg-white/10 transition-all duration-300
-                                   border border-white/10 hover:border-white/20
-                                   hover:scale-105 hover:shadow-lg hover:shadow-blue-500/20"
-                        onClick={() => handleHistoryClick(img)}
-                    >
-                        <img src={img.imageUrl} alt={img.title} className="w-full h-auto rounded-t-xl"/>
-                        <div className="p-2">
-                            <span className="block text-xs text-gray-400 group-hover:text-white truncate transition-colors">
-                                {img.title || `이미지 ${imageHistory.length - idx}`}
-                            </span>
-                        </div>
-                    </div>
-                ))}
+        <aside className="w-44 bg-black/60 backdrop-blur-xl border-r border-white/10 flex flex-col overflow-y-auto flex-shrink-0 p-2">
+             <div className="flex items-center justify-between mb-4">
+                <h4 className="text-white font-semibold text-xs uppercase tracking-wider opacity-60">
+                    히스토리
+                </h4>
+                <button
+                    onClick={() => currentImage && handleCompareVersion(imageHistory.find(img => img.id === currentImage.id) || currentImage)}
+                    disabled={imageHistory.length < 2}
+                    title="현재 이미지를 이전 버전과 비교"
+                    className="px-2 py-1 rounded-md text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 disabled:opacity-30"
+                >
+                    비교
+                </button>
             </div>
+            {/* HISTORY TREE */}
+            <VersionHistoryPanel
+                versions={imageHistory}
+                currentId={currentImage?.id}
+                onSelect={handleHistoryClick}
+                onRename={handleRenameVersion}
+                onTogglePin={handleTogglePinVersion}
+                onPrune={handlePruneVersion}
+                onCompare={handleCompareVersion}
+            />
         </aside>
 
         {mode === 'UPLOAD' ? (
             <main className="flex-1 bg-[#0A0A0B] flex flex-col items-center justify-center p-8 text-center">
-                 <div className="max-w-md w-full border-2 border-dashed border-[#3F3F46] rounded-3xl p-12 flex flex-col items-center hover:border-[#52525B] transition-colors cursor-pointer" onClick={() => fileInputRef.current?.click()}>
-                    <input
-                        type="file"
-                        ref={fileInputRef}
-                        onChange={handleFileUpload}
-                        className="hidden"
-                        accept="image/png, image/jpeg, image/webp"
-                        multiple
+                 <div className="max-w-xl w-full flex flex-col items-start gap-3">
+                    <h3 className="text-xl font-bold text-white">이미지 업로드</h3>
+                    <SourcePhotoManager
+                        files={sourceFiles}
+                        heroIndex={heroFileIndex}
+                        onAdd={handleAddSourcePhotos}
+                        onRemove={handleRemoveSourcePhoto}
+                        onMove={handleMoveSourcePhoto}
+                        onSetHero={handleSetHeroPhoto}
+                        disabled={isActionInProgress}
                     />
-                    <div className="w-20 h-20 bg-[#27272A] rounded-full flex items-center justify-center mb-6">
-                        <UploadIcon />
-                    </div>
-                    <h3 className="text-xl font-bold text-white mb-2">이미지 업로드</h3>
-                    {/* 3. Updated Upload Text */}
-                    <div className="text-center text-[#A1A1AA] mt-4 text-sm">
-                        작업 할 가구의 최대한 많은 다각도 이미지 첨부
-                    </div>
+                 </div>
+                 <div className="max-w-xl w-full mt-8 flex flex-col items-start gap-3">
+                    <h4 className="text-sm font-semibold text-white">스튜디오 환경</h4>
+                    <StudioPresetPicker selectedPresetId={studioPresetId} onSelect={handleStudioPresetChange} disabled={isActionInProgress} />
+                    {sourceFiles.length > 0 && (
+                        <button onClick={regenerateFrontView} disabled={isActionInProgress}
+                            className="w-full mt-2 px-5 py-2.5 rounded-xl font-medium text-sm bg-orange-500/90 hover:bg-orange-500 text-white shadow-lg shadow-orange-500/30 transition-all duration-300 disabled:opacity-50">
+                            {currentImage ? '스튜디오샷 재생성 (새 버전으로 추가)' : '스튜디오샷 생성'}
+                        </button>
+                    )}
                  </div>
             </main>
         ) : (
@@ -804,7 +1658,8 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                                 height={1711}
                                 isActive={true}
                                 currentTool={blueprintTool}
-                                onDimensionsChange={(dims) => setExportDimensions(dims)}
+                                dimensions={exportDimensions}
+                                onDimensionsChange={handleDimensionsChange}
                                 zoom={zoom}
                             />
                         </>
@@ -820,17 +1675,44 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                                     maxHeight: '90%'
                                 }}
                                 crossOrigin="anonymous" 
-                                onLoad={calculateLayout}
+                                onLoad={(e) => {
+                                    setImgSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+                                    calculateLayout();
+                                }}
                             />
                             <div style={{ position: 'absolute', top: imageLayout.top, left: imageLayout.left, width: imageLayout.width, height: imageLayout.height }}>
-                                <CanvasSketchLayer ref={sketchLayerRef} width={imageLayout.width} height={imageLayout.height} isActive={mode === 'SKETCH'} tool={sketchTool} color={sketchColor} lineWidth={sketchWidth} />
+                                <CanvasSketchLayer ref={sketchLayerRef} width={imageLayout.width} height={imageLayout.height} isActive={mode === 'SKETCH'} tool={sketchTool} color={sketchColor} lineWidth={sketchWidth} onStrokeStart={handleSketchStrokeStart} onStrokeEnd={handleSketchStrokeEnd} />
+                            </div>
+                            <div style={{ position: 'absolute', top: imageLayout.top, left: imageLayout.left, width: imageLayout.width, height: imageLayout.height, display: mode === 'OBJECT' && !variationsToSelect ? 'block' : 'none' }}>
+                                <MaskPaintLayer key={currentImage?.id} ref={maskPaintLayerRef} width={imgSize.width} height={imgSize.height} isActive={isMaskPainting} tool={maskPaintTool} brushSize={maskBrushSize} hardness={maskHardness} onMaskChange={setHasPaintedMask} />
                             </div>
                         </>
                     )}
 
                     {mode === 'OBJECT' && !variationsToSelect && (
                         <>
+                            {showMovePreview && currentImage && previewMoves.length > 0 && (
+                                <RepositionPreviewLayer imageUrl={currentImage.imageUrl} moves={previewMoves} layout={imageLayout} />
+                            )}
+                            {objects.length > 0 && !isMaskPainting && !isDrawingObject && (
+                                <div
+                                    className="absolute"
+                                    style={{ top: imageLayout.top, left: imageLayout.left, width: imageLayout.width, height: imageLayout.height }}
+                                    onClick={handleCanvasClick}
+                                />
+                            )}
+                            {isGroupSelected && groupObjects.filter(o => o.id !== selectedObjectId).map(o => {
+                            const boxToUse = modifiedBoxes[o.id] || o.box;
+                            const box = { x: (boxToUse.xMin / 1000) * imageLayout.width + imageLayout.left, y: (boxToUse.yMin / 1000) * imageLayout.height + imageLayout.top, width: ((boxToUse.xMax - boxToUse.xMin) / 1000) * imageLayout.width, height: ((boxToUse.yMax - boxToUse.yMin) / 1000) * imageLayout.height };
+                            return <StaticBoundingBox key={`group-${o.id}`} box={box} />;
+                            })}
+                            {selectedObject && !modifiedBoxes[selectedObject.id] && selectedObject.maskSource && selectedObject.maskSource !== 'box' && (
+                                <MaskOutline mask={selectedObject.mask} layout={imageLayout} color="#60A5FA" fill="#3B82F6" />
+                            )}
                             {childObjectsOfSelected.map(child => {
+                            if (!modifiedBoxes[child.id] && child.maskSource && child.maskSource !== 'box') {
+                                return <MaskOutline key={child.id} mask={child.mask} layout={imageLayout} />;
+                            }
                             const boxToUse = modifiedBoxes[child.id] || child.box;
                             const box = { x: (boxToUse.xMin / 1000) * imageLayout.width + imageLayout.left, y: (boxToUse.yMin / 1000) * imageLayout.height + imageLayout.top, width: ((boxToUse.xMax - boxToUse.xMin) / 1000) * imageLayout.width, height: ((boxToUse.yMax - boxToUse.yMin) / 1000) * imageLayout.height };
                             return <StaticBoundingBox key={child.id} box={box} />;
@@ -839,31 +1721,66 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                             const boxToUse = modifiedBoxes[obj.id]; if (!boxToUse) return null;
                             const centerX = ((boxToUse.xMin + boxToUse.xMax) / 2 / 1000) * imageLayout.width + imageLayout.left;
                             const centerY = ((boxToUse.yMin + boxToUse.yMax) / 2 / 1000) * imageLayout.height + imageLayout.top;
-                            return <div key={`dot-${obj.id}`} className="absolute w-3 h-3 bg-white rounded-full ring-2 ring-black/50 cursor-pointer z-20" style={{ left: `${centerX}px`, top: `${centerY}px`, transform: 'translate(-50%, -50%)' }} onClick={(e) => { e.stopPropagation(); setSelectedObjectId(obj.id); }} />;
+                            return <div key={`dot-${obj.id}`} className="absolute w-3 h-3 bg-white rounded-full ring-2 ring-black/50 cursor-pointer z-20" style={{ left: `${centerX}px`, top: `${centerY}px`, transform: 'translate(-50%, -50%)' }} onClick={(e) => { e.stopPropagation(); selectObject(obj.id, e.shiftKey); }} />;
                             })}
-                            {interactiveBox && <InteractiveBoundingBox box={interactiveBox} onBoxChange={handleBoxUpdate} bounds={imageLayout} />}
+                            {interactiveBox && !isMaskPainting && !isDrawingObject && (
+                                <InteractiveBoundingBox
+                                    box={interactiveBox}
+                                    onBoxChange={handleBoxUpdate}
+                                    bounds={imageLayout}
+                                    rotation={!isGroupSelected && selectedObjectId ? modifiedTransforms[selectedObjectId]?.rotation || 0 : 0}
+                                    onRotationChange={isGroupSelected ? undefined : handleRotationChange}
+                                    onDragStart={handleBoxDragStart}
+                                    onDragEnd={handleBoxDragEnd}
+                                />
+                            )}
+                            {isDrawingObject && <BoxDrawLayer bounds={imageLayout} onBoxDrawn={handleNewObjectBox} />}
+                            {newObjectDraft && (
+                                <div
+                                    className="absolute border-2 border-dashed border-emerald-400 bg-emerald-400/10 pointer-events-none z-20"
+                                    style={{
+                                        left: (newObjectDraft.box.xMin / 1000) * imageLayout.width + imageLayout.left,
+                                        top: (newObjectDraft.box.yMin / 1000) * imageLayout.height + imageLayout.top,
+                                        width: ((newObjectDraft.box.xMax - newObjectDraft.box.xMin) / 1000) * imageLayout.width,
+                                        height: ((newObjectDraft.box.yMax - newObjectDraft.box.yMin) / 1000) * imageLayout.height,
+                                    }}
+                                />
+                            )}
                         </>
                     )}
                     {variationsToSelect && <EditorVariationSelector 
                         variations={variationsToSelect} 
+                        pendingCount={pendingCandidateCount}
                         onSelect={(v) => { 
+                            handleCancelOperation(); // candidates still generating are no longer needed
+                            recordEditorChange('변형 선택');
                             setVariationsToSelect(null); 
+                            setPendingCandidateCount(0);
                             addToHistory(v, mode === 'SKETCH' ? 'pre-sketch' : 'pre-object');
+                            // Re-detect on the new image and carry the current objects over to it
+                            // (moved objects are matched at the spot they were moved to)
+                            const withMovedBoxes = (nodes: DetectedObject[]): DetectedObject[] =>
+                                nodes.map(n => ({ ...n, box: modifiedBoxes[n.id] || n.box, children: withMovedBoxes(n.children) }));
+                            setObjectsToTrack(objects.length > 0 ? withMovedBoxes(objects) : null);
+                            setLostObjectLabels([]);
                             setObjects([]);
                             setSelectedObjectId(null);
                             setModifiedBoxes({});
+                            setModifiedTransforms({});
                             setDuplicatedObjectIds(new Set());
                             setBlueprintImage(null);
                             setIsometricImage(null);
                             setOrthographicViews(null);
                             setGenerationStatus('idle');
+                            setPrompt('');
                             if (mode === 'SKETCH') {
                                 sketchLayerRef.current?.clear();
-                                setPrompt('');
                             }
                         }} 
                         onCancel={() => {
+                            handleCancelOperation();
                             setVariationsToSelect(null);
+                            setPendingCandidateCount(0);
                             setGenerationStatus('idle');
                             setIsLoading(false);
                             setError(null);
@@ -880,9 +1797,48 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                     {/* 7. Object Detection Section */}
                     {mode === 'OBJECT' && (
                         <div className="flex flex-col items-center p-6 space-y-4">
-                            <button onClick={handleObjectDetection} className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-xl w-full font-bold shadow-lg shadow-green-600/20 transition-all">
+                            <button onClick={() => handleObjectDetection()} className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-xl w-full font-bold shadow-lg shadow-green-600/20 transition-all">
                                 객체 감지시작
                             </button>
+                            <button
+                                onClick={() => { setIsDrawingObject(d => !d); setIsMaskPainting(false); setNewObjectDraft(null); }}
+                                disabled={!currentImage}
+                                className={`px-6 py-2.5 rounded-xl w-full text-sm font-semibold border transition-all disabled:opacity-50 ${isDrawingObject ? 'bg-emerald-500/20 border-emerald-400 text-emerald-200' : 'bg-[#27272A] border-[#3F3F46] text-gray-300 hover:bg-[#3F3F46]'}`}
+                            >
+                                {isDrawingObject ? '이미지 위에 박스를 그리세요' : '새 객체 그리기'}
+                            </button>
+
+                            {newObjectDraft && (
+                                <div className="w-full bg-[#27272A] p-4 rounded-xl border border-emerald-500/30 space-y-2">
+                                    <h4 className="text-white font-bold text-sm">새 객체</h4>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={newObjectDraft.label}
+                                            onChange={(e) => setNewObjectDraft(draft => draft && { ...draft, label: e.target.value })}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddDrawnObject(); }}
+                                            placeholder="객체 이름"
+                                            autoFocus
+                                            className="flex-1 min-w-0 px-2 py-1.5 bg-[#18181B] text-white rounded-lg text-xs border border-[#3F3F46] focus:outline-none focus:border-emerald-500/60"
+                                        />
+                                        <button onClick={handleSuggestObjectName} disabled={isNamingRegion} className="px-2 py-1.5 rounded-lg text-xs bg-[#3F3F46] hover:bg-[#52525B] text-white disabled:opacity-40">
+                                            {isNamingRegion ? '...' : '이름 추천'}
+                                        </button>
+                                    </div>
+                                    <select
+                                        value={newObjectDraft.parentId}
+                                        onChange={(e) => setNewObjectDraft(draft => draft && { ...draft, parentId: e.target.value })}
+                                        className="w-full px-2 py-1.5 bg-[#18181B] text-gray-300 rounded-lg text-xs border border-[#3F3F46] focus:outline-none"
+                                    >
+                                        <option value="">상위 객체 없음</option>
+                                        {getAllObjects(objects).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                                    </select>
+                                    <div className="flex gap-2">
+                                        <button onClick={handleAddDrawnObject} disabled={!newObjectDraft.label.trim()} className="flex-1 py-1.5 rounded-lg text-xs font-semibold bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-40">추가</button>
+                                        <button onClick={() => setNewObjectDraft(null)} className="flex-1 py-1.5 rounded-lg text-xs bg-[#3F3F46] hover:bg-[#52525B] text-white">취소</button>
+                                    </div>
+                                </div>
+                            )}
                             
                             {/* Object List Container */}
                             <div className="w-full bg-[#27272A] p-4 rounded-xl border border-white/5">
@@ -892,12 +1848,134 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                                         <ObjectLayerSkeleton />
                                     ) : objects.length > 0 ? (
                                         objects.map(obj => (
-                                            <ObjectLayer key={obj.id} object={obj} level={0} selectedObjectId={selectedObjectId} onSelect={setSelectedObjectId} isExpanded={expandedObjectIds.has(obj.id)} onToggleExpand={(id) => setExpandedObjectIds(prev => { const n = new Set(prev); n.has(id) ? n.delete(id) : n.add(id); return n; })} onRename={() => { }} />
+                                            <ObjectLayer key={obj.id} object={obj} level={0} selectedObjectId={selectedObjectId} selectedObjectIds={groupSelection} onSelect={selectObject} isExpanded={expandedObjectIds.has(obj.id)} onToggleExpand={(id) => setExpandedObjectIds(prev => { const n = new Set(prev); n.has(id) ? n.delete(id) : n.add(id); return n; })} onRename={handleRenameObject} onDropObject={(draggedId, targetId) => { handleReparentObject(draggedId, targetId); }} />
                                         ))
                                     ) : (
                                         <div className="text-[#A1A1AA] text-sm py-2">감지된 객체가 없습니다.</div>
                                     )}
                                 </div>
+                                {!isLoading && objects.length > 0 && (
+                                    <div
+                                        onDragOver={(e) => { if (e.dataTransfer.types.includes(OBJECT_DRAG_TYPE)) e.preventDefault(); }}
+                                        onDrop={(e) => { e.preventDefault(); const id = e.dataTransfer.getData(OBJECT_DRAG_TYPE); if (id) handleReparentObject(id, null); }}
+                                        className="mt-2 py-2 text-center text-[11px] text-[#71717A] border border-dashed border-[#3F3F46] rounded-lg"
+                                    >
+                                        여기로 끌어 놓으면 최상위 객체가 됩니다
+                                    </div>
+                                )}
+                                {selectedObject && !isLoading && (
+                                    <div className="mt-3 pt-3 border-t border-[#3F3F46] space-y-2">
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={mergeCandidateId}
+                                                onChange={(e) => setMergeCandidateId(e.target.value)}
+                                                className="flex-1 min-w-0 px-2 py-1.5 bg-[#18181B] text-gray-300 rounded-lg text-xs border border-[#3F3F46] focus:outline-none"
+                                            >
+                                                <option value="">병합할 객체 선택</option>
+                                                {getAllObjects(objects).filter(o => o.id !== selectedObject.id).map(o => (
+                                                    <option key={o.id} value={o.id}>{o.label}</option>
+                                                ))}
+                                            </select>
+                                            <button onClick={handleMergeObjects} disabled={!mergeCandidateId} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-[#3F3F46] hover:bg-[#52525B] text-white disabled:opacity-40">병합</button>
+                                        </div>
+                                        <button onClick={handleSplitObject} disabled={selectedObject.children.length === 0} title="선택한 객체를 없애고 하위 객체를 그 자리에 둡니다" className="w-full px-3 py-1.5 rounded-lg text-xs font-semibold bg-[#3F3F46] hover:bg-[#52525B] text-white disabled:opacity-40">하위 객체로 분리</button>
+                                    </div>
+                                )}
+                                {!isLoading && lostObjectLabels.length > 0 && (
+                                    <div className="mt-3 text-xs text-amber-300/80 bg-amber-500/10 border border-amber-500/20 rounded-lg p-2">
+                                        이전 이미지에서 찾지 못한 객체: {lostObjectLabels.join(', ')}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Group layout for shift-click selections */}
+                            {isGroupSelected && (
+                                <div className="w-full bg-[#27272A] p-4 rounded-xl border border-white/5 space-y-3">
+                                    <h4 className="text-white font-bold text-lg border-b border-[#3F3F46] pb-2">정렬 ({groupObjects.length}개 선택)</h4>
+                                    <div className="grid grid-cols-5 gap-1">
+                                        {([['left', '왼쪽'], ['center', '가운데'], ['right', '오른쪽'], ['top', '위'], ['bottom', '아래']] as [BoxAlignment, string][]).map(([alignment, label]) => (
+                                            <button key={alignment} onClick={() => handleAlignGroup(alignment)} className="py-2 rounded-lg text-xs font-medium bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white">{label}</button>
+                                        ))}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-1">
+                                        <button onClick={() => handleDistributeGroup('horizontal')} disabled={groupObjects.length < 3} className="py-2 rounded-lg text-xs font-medium bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-40">가로 균등 분배</button>
+                                        <button onClick={() => handleDistributeGroup('vertical')} disabled={groupObjects.length < 3} className="py-2 rounded-lg text-xs font-medium bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-40">세로 균등 분배</button>
+                                    </div>
+                                    <div>
+                                        <div className="text-xs font-bold text-[#71717A] mb-1">'{selectedObject?.label}' 크기에 맞추기</div>
+                                        <div className="grid grid-cols-3 gap-1">
+                                            {([['width', '너비'], ['height', '높이'], ['both', '둘 다']] as [BoxDimension, string][]).map(([dimension, label]) => (
+                                                <button key={dimension} onClick={() => handleMatchGroupSize(dimension)} className="py-2 rounded-lg text-xs font-medium bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white">{label}</button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Orientation of the selected object(s): rotate with the handle above the box, mirror here */}
+                            {selectedObject && (
+                                <div className="w-full bg-[#27272A] p-4 rounded-xl border border-white/5 space-y-3">
+                                    <div className="flex items-center justify-between border-b border-[#3F3F46] pb-2">
+                                        <h4 className="text-white font-bold text-lg">방향</h4>
+                                        {!isGroupSelected && <span className="text-xs text-[#A1A1AA]">회전 {modifiedTransforms[selectedObject.id]?.rotation || 0}°</span>}
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-1">
+                                        <button onClick={() => handleFlip('horizontal')} className={`py-2 rounded-lg text-xs font-medium ${modifiedTransforms[selectedObject.id]?.flipHorizontal ? 'bg-blue-500/90 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white'}`}>좌우 반전</button>
+                                        <button onClick={() => handleFlip('vertical')} className={`py-2 rounded-lg text-xs font-medium ${modifiedTransforms[selectedObject.id]?.flipVertical ? 'bg-blue-500/90 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white'}`}>상하 반전</button>
+                                        <button onClick={handleResetOrientation} className="py-2 rounded-lg text-xs font-medium bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white">초기화</button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Mask painting: edit exactly the painted area instead of a detected object */}
+                            <div className="w-full bg-[#27272A] p-4 rounded-xl border border-white/5 space-y-3">
+                                <div className="flex items-center justify-between border-b border-[#3F3F46] pb-2">
+                                    <h4 className="text-white font-bold text-lg">마스크 칠하기</h4>
+                                    <button
+                                        onClick={() => { setIsMaskPainting(p => !p); setIsDrawingObject(false); }}
+                                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${isMaskPainting ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                                    >
+                                        {isMaskPainting ? '칠하는 중' : '켜기'}
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {maskPaintTools.map(tool => (
+                                        <button
+                                            key={tool.key}
+                                            onClick={() => { setMaskPaintTool(tool.key); setIsMaskPainting(true); setIsDrawingObject(false); }}
+                                            className={`py-2 rounded-lg text-xs font-medium transition-colors ${isMaskPainting && maskPaintTool === tool.key ? 'bg-blue-500/90 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'}`}
+                                        >
+                                            {tool.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div>
+                                    <label className="text-xs font-bold text-[#71717A] mb-1 flex justify-between"><span>크기</span><span>{maskBrushSize}px</span></label>
+                                    <input type="range" min={5} max={200} value={maskBrushSize} onChange={(e) => setMaskBrushSize(Number(e.target.value))} className="w-full" />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-bold text-[#71717A] mb-1 flex justify-between"><span>경도</span><span>{Math.round(maskHardness * 100)}%</span></label>
+                                    <input type="range" min={0} max={100} value={Math.round(maskHardness * 100)} onChange={(e) => setMaskHardness(Number(e.target.value) / 100)} className="w-full" />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button
+                                        onClick={() => selectedObject && maskPaintLayerRef.current?.loadMask(selectedObject.mask, 'add')}
+                                        disabled={!selectedObject}
+                                        className="py-2 rounded-lg text-xs bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40"
+                                    >
+                                        선택 객체 더하기
+                                    </button>
+                                    <button
+                                        onClick={() => selectedObject && maskPaintLayerRef.current?.loadMask(selectedObject.mask, 'subtract')}
+                                        disabled={!selectedObject}
+                                        className="py-2 rounded-lg text-xs bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40"
+                                    >
+                                        선택 객체 빼기
+                                    </button>
+                                    <button onClick={() => maskPaintLayerRef.current?.undo()} className="py-2 rounded-lg text-xs bg-yellow-500/80 hover:bg-yellow-500 text-white">실행취소</button>
+                                    <button onClick={() => maskPaintLayerRef.current?.clear()} disabled={!hasPaintedMask} className="py-2 rounded-lg text-xs bg-red-500/80 hover:bg-red-500 text-white disabled:opacity-40">전부지우기</button>
+                                </div>
+                                {hasPaintedMask && <div className="text-[11px] text-blue-300">수정 시 칠한 영역만 편집됩니다.</div>}
                             </div>
                         </div>
                     )}
@@ -938,11 +2016,11 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                             </div>
 
                             <div className="mt-auto space-y-2">
-                                <button onClick={() => sketchLayerRef.current?.undo()} 
-                                    className="w-full px-4 py-3 rounded-xl font-medium text-sm bg-yellow-500/80 hover:bg-yellow-500 text-white shadow-lg shadow-yellow-500/20 hover:shadow-yellow-500/40 transition-all duration-300 hover:scale-105">
+                                <button onClick={handleUndo} disabled={!nextUndo}
+                                    className="w-full px-4 py-3 rounded-xl font-medium text-sm bg-yellow-500/80 hover:bg-yellow-500 text-white shadow-lg shadow-yellow-500/20 hover:shadow-yellow-500/40 transition-all duration-300 hover:scale-105 disabled:opacity-50">
                                     실행취소
                                 </button>
-                                <button onClick={() => sketchLayerRef.current?.clear()} 
+                                <button onClick={handleClearSketch} 
                                     className="w-full px-4 py-3 rounded-xl font-medium text-sm bg-red-500/80 hover:bg-red-500 text-white shadow-lg shadow-red-500/20 hover:shadow-red-500/40 transition-all duration-300 hover:scale-105">
                                     전부지우기
                                 </button>
@@ -954,7 +2032,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                         <div className="p-6 space-y-4">
                             {!isometricImage ? (
                                 <button
-                                    onClick={handleBlueprintStart}
+                                    onClick={() => handleBlueprintStart()}
                                     disabled={generationStatus !== 'idle'}
                                     className="w-full py-4 px-4 bg-gradient-to-r from-[#8B5CF6] to-[#3B82F6] text-white rounded-xl font-black text-sm shadow-lg disabled:opacity-50"
                                 >
@@ -989,7 +2067,7 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
               <>
                 {/* 6. Regenerate Button (Left) */}
                 <div className="flex items-center gap-3">
-                    <button onClick={handleRegenerate} 
+                    <button onClick={regenerateFrontView} 
                         className="px-5 py-2.5 rounded-xl font-medium text-sm bg-orange-500/90 hover:bg-orange-500 text-white shadow-lg shadow-orange-500/30 hover:shadow-orange-500/50 transition-all duration-300 hover:scale-105">
                         이미지 재생성(각도변경)
                     </button>
@@ -1007,13 +2085,44 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                                 className="px-4 py-2.5 rounded-xl font-medium text-sm bg-blue-500/80 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 hover:shadow-blue-500/40 transition-all duration-300 hover:scale-105 disabled:opacity-50 disabled:scale-100">
                                 선택한 객체 복사
                             </button>
+                            {movedObjects.length > 0 && (
+                                <button onClick={() => setShowMovePreview(p => !p)} title="이동/복사 결과를 생성 전에 대략적으로 미리 봅니다"
+                                    className={`px-4 py-2.5 rounded-xl font-medium text-sm border transition-all duration-300 ${showMovePreview ? 'bg-white/15 border-white/30 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}>
+                                    미리보기 {showMovePreview ? '켜짐' : '꺼짐'}
+                                </button>
+                            )}
                         </>
                     )}
                 </div>
 
                 {/* 9. Text Input + Unified Modify (Right) */}
                 <div className="flex items-center gap-3">
+                    <select
+                        value={candidateCount}
+                        onChange={(e) => setCandidateCount(Number(e.target.value))}
+                        disabled={isActionInProgress}
+                        title="생성할 후보 이미지 수"
+                        className="px-3 py-2.5 bg-white/5 text-gray-300 rounded-xl text-sm border border-white/10 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+                    >
+                        {Array.from({ length: MAX_CANDIDATE_COUNT - MIN_CANDIDATE_COUNT + 1 }, (_, i) => MIN_CANDIDATE_COUNT + i).map(count => (
+                            <option key={count} value={count} className="bg-[#18181B]">후보 {count}개</option>
+                        ))}
+                    </select>
+                    {mode === 'OBJECT' && (
+                        <select
+                            value={compositeFeather}
+                            onChange={(e) => setCompositeFeather(Number(e.target.value))}
+                            disabled={isActionInProgress}
+                            title="편집 영역 경계 안쪽에서 원본과 섞는 폭 (영역 밖은 항상 원본 유지)"
+                            className="px-3 py-2.5 bg-white/5 text-gray-300 rounded-xl text-sm border border-white/10 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+                        >
+                            {[0, 4, 8, 16, 32].map(px => (
+                                <option key={px} value={px} className="bg-[#18181B]">경계 {px}px</option>
+                            ))}
+                        </select>
+                    )}
                     <input 
+                        ref={promptInputRef}
                         type="text" 
                         value={prompt} 
                         onChange={(e) => setPrompt(e.target.value)} 
@@ -1061,16 +2170,9 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
     
     {/* 실행취소 버튼 추가 (치수선선택 제거됨) */}
     <button 
-        onClick={() => {
-            // Ctrl+Z 이벤트 발송하여 DimensioningLayer가 감지하도록
-            const event = new KeyboardEvent('keydown', {
-                key: 'z',
-                ctrlKey: true,
-                bubbles: true
-            });
-            window.dispatchEvent(event);
-        }}
-        className="px-4 py-2.5 rounded-xl font-medium text-sm
+        onClick={handleUndo}
+        disabled={!nextUndo}
+        className="px-4 py-2.5 rounded-xl font-medium text-sm disabled:opacity-50
                  bg-yellow-500/80 hover:bg-yellow-500 text-white
                  shadow-lg shadow-yellow-500/20 hover:shadow-yellow-500/40
                  transition-all duration-300 hover:scale-105"
@@ -1085,8 +2187,8 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
                 alert('도면 이미지를 먼저 생성해주세요.');
                 return;
             }
+            changeMode('FINAL');
             setShowTechnicalExport(true);
-            setMode('FINAL');
         }} 
         className="px-5 py-2.5 rounded-xl font-medium text-sm
                  bg-green-500/90 hover:bg-green-500 text-white
@@ -1102,6 +2204,15 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
       </footer>
       )}
 
+      {comparedVersions && (
+        <VersionCompareView
+            versions={imageHistory}
+            beforeId={comparedVersions.beforeId}
+            afterId={comparedVersions.afterId}
+            onClose={() => setComparedVersions(null)}
+        />
+      )}
+
       {showTechnicalExport && isometricImage && orthographicViews && (
         <TechnicalDrawingExport
             isometricImage={isometricImage.startsWith('data:') ? isometricImage : `data:image/png;base64,${isometricImage}`}
@@ -1111,16 +2222,16 @@ export const EditorView: React.FC<EditorViewProps> = ({ image: initialImage, upl
             metadata={metadata}
             onClose={() => {
                 setShowTechnicalExport(false);
-                setMode('BLUEPRINT');
+                changeMode('BLUEPRINT');
             }}
-            onMetadataChange={setMetadata}
+            onMetadataChange={handleMetadataChange}
             imageHistory={imageHistory}
             onHistoryClick={(item) => {
                 handleHistoryClick(item);
                 setShowTechnicalExport(false);
             }}
             onModeChange={(newMode) => {
-                setMode(newMode as EditorMode);
+                changeMode(newMode as EditorMode);
                 if (newMode !== 'FINAL') setShowTechnicalExport(false);
             }}
         />
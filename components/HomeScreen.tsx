@@ -2,13 +2,19 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { t } from '../i18n';
 import { UploadIcon } from './icons/UploadIcon';
+import { ProviderSelect } from './ProviderSelect';
+import { RecentProjectList } from './RecentProjectList';
 
 interface HomeScreenProps {
   onFilesSelect: (files: File[]) => void;
+  onOpenProject?: (projectId: string) => void | Promise<void>;
+  onImportProject?: (file: File) => void | Promise<void>;
 }
 
-export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect }) => {
+export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect, onOpenProject, onImportProject }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [hasApiKey, setHasApiKey] = useState(true); 
   
@@ -35,6 +41,22 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect }) => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const importProject = async (file: File) => {
+    if (!onImportProject) return;
+    setIsImporting(true);
+    try {
+        await onImportProject(file);
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importProject(file);
+    if (projectFileInputRef.current) projectFileInputRef.current.value = '';
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -49,6 +71,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect }) => {
     e.preventDefault();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+        // A dropped project file opens the project instead of starting a new one
+        const projectFile = Array.from<File>(e.dataTransfer.files).find(file => file.name.toLowerCase().endsWith('.zip'));
+        if (projectFile && onImportProject) {
+            importProject(projectFile);
+            return;
+        }
         const filesArray = Array.from(e.dataTransfer.files).filter((file: File) => 
             file.type === 'image/png' || file.type === 'image/jpeg' || file.type === 'image/webp'
         );
@@ -81,6 +109,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect }) => {
                 </div>
             )}
 
+            {/* AI Provider (e.g. offline demo mode for laptops without internet) */}
+            <div className="flex justify-center">
+                <ProviderSelect />
+            </div>
+
             {/* Upload Area */}
             <div 
                 className={`
@@ -111,6 +144,28 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onFilesSelect }) => {
                     작업 할 가구의 최대한 많은 다각도 이미지 첨부
                 </p>
             </div>
+
+            {onImportProject && (
+                <div className="flex justify-center">
+                    <input
+                        type="file"
+                        ref={projectFileInputRef}
+                        onChange={handleProjectFileChange}
+                        className="hidden"
+                        accept=".zip,application/zip"
+                    />
+                    <button
+                        onClick={() => projectFileInputRef.current?.click()}
+                        disabled={isImporting}
+                        className="px-4 py-2 rounded-lg text-sm bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 transition-colors disabled:opacity-50"
+                    >
+                        {isImporting ? '프로젝트 여는 중...' : '프로젝트 파일 열기 (.zip)'}
+                    </button>
+                </div>
+            )}
+
+            {/* Autosaved projects */}
+            {onOpenProject && <RecentProjectList onOpen={onOpenProject} />}
         </div>
       </div>
     </div>
@@ -17,6 +17,7 @@ interface ImageVariationsCardProps {
   onSuggestionClick: (suggestion: string) => void;
   groundingMetadata?: { groundingChunks: GroundingChunk[] };
   onRetryVariation: (variation: ImageVariation) => void;
+  onRephraseVariation?: (variation: ImageVariation) => void;
 }
 
 export const ImageVariationsCard: React.FC<ImageVariationsCardProps> = ({
@@ -27,13 +28,14 @@ export const ImageVariationsCard: React.FC<ImageVariationsCardProps> = ({
   onSuggestionClick,
   groundingMetadata,
   onRetryVariation,
+  onRephraseVariation,
 }) => {
   return (
     <div className="bg-[#1C1C1E] rounded-2xl p-4 w-full">
       <div className="space-y-6">
         {variations.map((variation) => (
             variation.isError ? (
-                <ImageVariationErrorCard key={variation.id} variation={variation} onRetry={onRetryVariation} />
+                <ImageVariationErrorCard key={variation.id} variation={variation} onRetry={onRetryVariation} onRephrase={onRephraseVariation} />
             ) : (
                 <div key={variation.id} className="flex items-center gap-4">
                     <img
@@ -19,11 +19,23 @@ interface InteractiveBoundingBoxProps {
     box: Box;
     onBoxChange: (box: Box) => void;
     bounds: Bounds;
+    rotation?: number; // degrees clockwise; drawn as a rotated outline inside the box
+    onRotationChange?: (degrees: number) => void; // shows the rotate handle when set
+    onDragStart?: () => void; // once per move/resize/rotate gesture, e.g. to record an undo step
+    onDragEnd?: () => void;
 }
 
 const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 24; // px above the top edge
+const ROTATION_SNAP = 15; // degrees, while shift is held
 
-export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({ box, onBoxChange, bounds }) => {
+// Normalizes to (-180, 180]
+const normalizeAngle = (degrees: number) => {
+    const wrapped = ((degrees % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({ box, onBoxChange, bounds, rotation = 0, onRotationChange, onDragStart, onDragEnd }) => {
     const [activeDrag, setActiveDrag] = useState<string | null>(null);
     const boxRef = useRef<HTMLDivElement>(null);
     const dragStartPos = useRef({ x: 0, y: 0 });
@@ -35,6 +47,18 @@ export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({
         const handleMouseMove = (e: MouseEvent) => {
             if (!activeDrag) return;
 
+            if (activeDrag === 'rotate') {
+                // Angle of the pointer around the box center; straight up is 0°
+                const rect = boxRef.current?.getBoundingClientRect();
+                if (!rect) return;
+                const cx = rect.left + rect.width / 2;
+                const cy = rect.top + rect.height / 2;
+                let degrees = Math.atan2(e.clientY - cy, e.clientX - cx) * 180 / Math.PI + 90;
+                degrees = e.shiftKey ? Math.round(degrees / ROTATION_SNAP) * ROTATION_SNAP : Math.round(degrees);
+                onRotationChange?.(normalizeAngle(degrees));
+                return;
+            }
+
             const dx = e.clientX - dragStartPos.current.x;
             const dy = e.clientY - dragStartPos.current.y;
             let newBox = { ...dragStartBox.current };
@@ -78,6 +102,7 @@ export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({
         };
 
         const handleMouseUp = () => {
+            if (activeDrag) onDragEnd?.();
             setActiveDrag(null);
         };
 
@@ -87,13 +112,14 @@ export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({
             window.removeEventListener('mousemove', handleMouseMove);
             window.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [activeDrag, onBoxChange, bounds]);
+    }, [activeDrag, onBoxChange, onRotationChange, onDragEnd, bounds]);
 
     const handleMouseDown = (e: React.MouseEvent, handle: string) => {
         e.stopPropagation();
         setActiveDrag(handle);
         dragStartPos.current = { x: e.clientX, y: e.clientY };
         dragStartBox.current = box;
+        onDragStart?.();
     };
 
     const handles = [
@@ -147,6 +173,38 @@ export const InteractiveBoundingBox: React.FC<InteractiveBoundingBoxProps> = ({
                     }}
                 />
             ))}
+            {rotation !== 0 && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        inset: 0,
+                        border: '2px dashed rgba(96, 165, 250, 0.9)',
+                        transform: `rotate(${rotation}deg)`,
+                        pointerEvents: 'none',
+                    }}
+                />
+            )}
+            {onRotationChange && (
+                <>
+                    <div style={{ position: 'absolute', left: '50%', top: -ROTATE_HANDLE_OFFSET, width: 1, height: ROTATE_HANDLE_OFFSET, background: 'white', pointerEvents: 'none' }} />
+                    <div
+                        onMouseDown={(e) => handleMouseDown(e, 'rotate')}
+                        title={`${rotation}° (Shift: ${ROTATION_SNAP}° steps)`}
+                        style={{
+                            position: 'absolute',
+                            left: `calc(50% - ${HANDLE_SIZE}px)`,
+                            top: -ROTATE_HANDLE_OFFSET - HANDLE_SIZE,
+                            width: HANDLE_SIZE * 2,
+                            height: HANDLE_SIZE * 2,
+                            borderRadius: '50%',
+                            backgroundColor: 'white',
+                            border: '1px solid black',
+                            cursor: 'grab',
+                            zIndex: 10,
+                        }}
+                    />
+                </>
+            )}
         </div>
     );
 };
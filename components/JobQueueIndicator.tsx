@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { getQueueSnapshot, subscribeToQueue, QueueSnapshot, JobPriority } from '../services/jobQueue';
+
+const JOB_LABELS: Record<string, string> = {
+  'studio-shot': '스튜디오샷',
+  'isometric-side': '측면 아이소메트릭',
+  'isometric-3d': '3D 아이소메트릭',
+  'blueprint-style': '도면 스타일',
+  'blueprint-dimensions': '치수 정리',
+  'orthographic-front': '정면도',
+  'orthographic-side': '측면도',
+  'sketch-edit': '스케치 편집',
+  'masked-edit': '영역 편집',
+  'reposition': '배치 수정',
+  'variation': '변형 생성',
+  'segmentation': '객체 감지',
+  'planning': '편집 계획',
+};
+
+const PRIORITY_LABELS: Record<JobPriority, string> = {
+  interactive: '즉시',
+  normal: '보통',
+  background: '백그라운드',
+};
+
+// Header chip showing what the AI scheduler is running and what is waiting
+export const JobQueueIndicator: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<QueueSnapshot>(getQueueSnapshot);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => subscribeToQueue(setSnapshot), []);
+
+  if (snapshot.jobs.length === 0) return null;
+
+  const runningCount = snapshot.jobs.filter(j => j.state === 'running').length;
+  const queuedCount = snapshot.jobs.length - runningCount;
+
+  return (
+    <div className="relative" onMouseEnter={() => setIsOpen(true)} onMouseLeave={() => setIsOpen(false)}>
+      <div className="flex items-center gap-2 px-3 py-2 bg-white/5 rounded-lg text-xs text-gray-300 border border-white/10">
+        <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+        <span>AI 작업 {runningCount}개 실행</span>
+        {queuedCount > 0 && <span className="text-gray-500">· {queuedCount}개 대기</span>}
+      </div>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-[#18181B] border border-white/10 rounded-xl shadow-2xl p-3 z-50">
+          {snapshot.lanes.map(lane => (
+            <div key={lane.lane} className="flex justify-between text-[11px] text-gray-500 mb-1">
+              <span>{lane.lane === 'image' ? '이미지 모델' : '비전 모델'}</span>
+              <span>{lane.running}/{lane.limit} 실행 · {lane.queued} 대기</span>
+            </div>
+          ))}
+          <div className="border-t border-white/10 my-2" />
+          <ul className="space-y-1">
+            {snapshot.jobs.map(job => (
+              <li key={job.id} className="flex items-center justify-between text-xs">
+                <span className={job.state === 'running' ? 'text-white' : 'text-gray-500'}>
+                  {JOB_LABELS[job.label] || job.label}
+                  {job.subscribers > 1 && <span className="text-gray-500"> ×{job.subscribers}</span>}
+                </span>
+                <span className="text-[10px] text-gray-500">
+                  {job.state === 'running' ? '실행 중' : '대기'} · {PRIORITY_LABELS[job.priority]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+import { loadMaskImage } from '../utils/maskUtils';
+
+interface MaskOutlineProps {
+  mask: string; // full-image object mask (base64 png)
+  layout: { top: number; left: number; width: number; height: number };
+  color?: string;
+  fill?: string; // optional tint inside the outline
+}
+
+// Traces the outline of an object mask over the displayed image, in place of a bounding box
+export const MaskOutline: React.FC<MaskOutlineProps> = ({ mask, layout, color = '#FFFFFF', fill }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const canvas = canvasRef.current;
+    const width = Math.round(layout.width);
+    const height = Math.round(layout.height);
+    if (!canvas || width < 2 || height < 2) return;
+
+    loadMaskImage(mask).then(maskImg => {
+      if (cancelled) return;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(maskImg, 0, 0, width, height);
+      const source = ctx.getImageData(0, 0, width, height).data;
+      const output = ctx.createImageData(width, height);
+      const out = output.data;
+
+      const [r, g, b] = hexToRgb(color);
+      const [fr, fg, fb, fa] = fill ? [...hexToRgb(fill), 60] : [0, 0, 0, 0];
+      const inside = (x: number, y: number) =>
+        x >= 0 && y >= 0 && x < width && y < height && source[(y * width + x) * 4] >= 128;
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!inside(x, y)) continue;
+          const i = (y * width + x) * 4;
+          // A mask pixel with any neighbour outside the mask is on the outline
+          const isEdge = !inside(x - 1, y) || !inside(x + 1, y) || !inside(x, y - 1) || !inside(x, y + 1);
+          if (isEdge) {
+            out[i] = r; out[i + 1] = g; out[i + 2] = b; out[i + 3] = 255;
+          } else if (fa) {
+            out[i] = fr; out[i + 1] = fg; out[i + 2] = fb; out[i + 3] = fa;
+          }
+        }
+      }
+      ctx.clearRect(0, 0, width, height);
+      ctx.putImageData(output, 0, 0);
+    }).catch(e => console.warn('Could not draw mask outline:', e));
+
+    return () => { cancelled = true; };
+  }, [mask, layout.width, layout.height, color, fill]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        position: 'absolute',
+        top: layout.top,
+        left: layout.left,
+        width: layout.width,
+        height: layout.height,
+        pointerEvents: 'none',
+        filter: 'drop-shadow(0 0 2px rgba(0,0,0,0.6))',
+      }}
+    />
+  );
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
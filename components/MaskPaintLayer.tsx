@@ -0,0 +1,265 @@
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import { loadMaskImage } from '../utils/maskUtils';
+
+export type MaskPaintTool = 'brush' | 'eraser' | 'lasso-add' | 'lasso-subtract';
+
+interface MaskPaintLayerProps {
+    width: number;  // natural image size, the mask is painted at full resolution
+    height: number;
+    isActive: boolean;
+    tool: MaskPaintTool;
+    brushSize: number; // diameter in image pixels
+    hardness: number;  // 0 = fully soft edge, 1 = hard edge
+    onMaskChange?: (hasMask: boolean) => void;
+}
+
+export interface MaskPaintLayerRef {
+    getMaskBase64: () => string; // grayscale png, white = edit
+    loadMask: (maskBase64: string, operation: 'add' | 'subtract') => Promise<void>;
+    clear: () => void;
+    undo: () => void;
+    hasMask: boolean;
+}
+
+const MAX_HISTORY = 20;
+const MASK_TINT = 'rgba(59, 130, 246, 0.5)';
+
+// Paints an edit mask over the image. An offscreen canvas keeps the mask as alpha coverage, the
+// visible canvas shows it tinted, and export turns coverage into a black/white (soft edged) mask.
+export const MaskPaintLayer = forwardRef<MaskPaintLayerRef, MaskPaintLayerProps>(({ width, height, isActive, tool, brushSize, hardness, onMaskChange }, ref) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const [history, setHistory] = useState<ImageData[]>([]);
+    const [hasMask, setHasMask] = useState(false);
+    const isDrawingRef = useRef(false);
+    const lastPosRef = useRef<{ x: number, y: number } | null>(null);
+    const lassoRef = useRef<{ x: number, y: number }[]>([]);
+
+    const getCtx = () => maskCanvasRef.current?.getContext('2d', { willReadFrequently: true }) || null;
+
+    // Redraws the visible tinted mask; `overlay` draws on top (lasso preview)
+    const render = (overlay?: (ctx: CanvasRenderingContext2D) => void) => {
+        const display = canvasRef.current?.getContext('2d');
+        const mask = maskCanvasRef.current;
+        if (!display || !mask) return;
+        display.globalCompositeOperation = 'source-over';
+        display.clearRect(0, 0, width, height);
+        display.drawImage(mask, 0, 0);
+        display.globalCompositeOperation = 'source-in';
+        display.fillStyle = MASK_TINT;
+        display.fillRect(0, 0, width, height);
+        display.globalCompositeOperation = 'source-over';
+        overlay?.(display);
+    };
+
+    // Coverage check on a coarse grid is enough to know whether anything is painted
+    const updateHasMask = () => {
+        const ctx = getCtx();
+        if (!ctx) return;
+        const { data } = ctx.getImageData(0, 0, width, height);
+        const step = 4 * Math.max(1, Math.floor(Math.min(width, height) / 200));
+        let found = false;
+        for (let i = 3; i < data.length; i += step) {
+            if (data[i] > 0) { found = true; break; }
+        }
+        setHasMask(found);
+        onMaskChange?.(found);
+        render();
+    };
+
+    const saveState = () => {
+        const ctx = getCtx();
+        if (!ctx) return;
+        const state = ctx.getImageData(0, 0, width, height);
+        setHistory(prev => [...prev.slice(-(MAX_HISTORY - 1)), state]);
+    };
+
+    useImperativeHandle(ref, () => ({
+        getMaskBase64: () => {
+            const ctx = getCtx();
+            if (!ctx) return '';
+            const source = ctx.getImageData(0, 0, width, height);
+            const out = document.createElement('canvas');
+            out.width = width;
+            out.height = height;
+            const outCtx = out.getContext('2d');
+            if (!outCtx) return '';
+            const output = outCtx.createImageData(width, height);
+            for (let i = 0; i < source.data.length; i += 4) {
+                const value = source.data[i + 3];
+                output.data[i] = output.data[i + 1] = output.data[i + 2] = value;
+                output.data[i + 3] = 255;
+            }
+            outCtx.putImageData(output, 0, 0);
+            return out.toDataURL('image/png').split(',')[1];
+        },
+        loadMask: async (maskBase64, operation) => {
+            const ctx = getCtx();
+            if (!ctx) return;
+            const maskImg = await loadMaskImage(maskBase64);
+            // White mask → alpha coverage
+            const temp = document.createElement('canvas');
+            temp.width = width;
+            temp.height = height;
+            const tempCtx = temp.getContext('2d', { willReadFrequently: true });
+            if (!tempCtx) return;
+            tempCtx.drawImage(maskImg, 0, 0, width, height);
+            const imageData = tempCtx.getImageData(0, 0, width, height);
+            for (let i = 0; i < imageData.data.length; i += 4) {
+                imageData.data[i + 3] = imageData.data[i];
+                imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = 255;
+            }
+            tempCtx.putImageData(imageData, 0, 0);
+
+            saveState();
+            ctx.globalCompositeOperation = operation === 'add' ? 'source-over' : 'destination-out';
+            ctx.drawImage(temp, 0, 0);
+            ctx.globalCompositeOperation = 'source-over';
+            updateHasMask();
+        },
+        clear: () => {
+            const ctx = getCtx();
+            if (!ctx) return;
+            saveState();
+            ctx.clearRect(0, 0, width, height);
+            updateHasMask();
+        },
+        undo: () => {
+            const ctx = getCtx();
+            if (!ctx || history.length === 0) return;
+            ctx.putImageData(history[history.length - 1], 0, 0);
+            setHistory(prev => prev.slice(0, -1));
+            updateHasMask();
+        },
+        hasMask,
+    }));
+
+    // A new image size means a new image; the old mask no longer applies
+    useEffect(() => {
+        const mask = document.createElement('canvas');
+        mask.width = width;
+        mask.height = height;
+        maskCanvasRef.current = mask;
+        setHistory([]);
+        setHasMask(false);
+        onMaskChange?.(false);
+    }, [width, height]);
+
+    const getPos = (e: React.MouseEvent) => {
+        const canvas = canvasRef.current!;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    // One soft round dab; inner radius is fully opaque, the rest fades out
+    const stamp = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+        const radius = brushSize / 2;
+        const gradient = ctx.createRadialGradient(x, y, radius * Math.min(0.99, hardness), x, y, radius);
+        gradient.addColorStop(0, 'rgba(255,255,255,1)');
+        gradient.addColorStop(1, 'rgba(255,255,255,0)');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    };
+
+    const strokeTo = (ctx: CanvasRenderingContext2D, to: { x: number, y: number }) => {
+        const from = lastPosRef.current || to;
+        const distance = Math.hypot(to.x - from.x, to.y - from.y);
+        const spacing = Math.max(1, brushSize / 6);
+        const steps = Math.max(1, Math.ceil(distance / spacing));
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        for (let s = 1; s <= steps; s++) {
+            const t = s / steps;
+            stamp(ctx, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+        }
+        ctx.globalCompositeOperation = 'source-over';
+        lastPosRef.current = to;
+    };
+
+    const drawLassoPreview = (ctx: CanvasRenderingContext2D) => {
+        const points = lassoRef.current;
+        if (points.length < 2) return;
+        ctx.save();
+        ctx.strokeStyle = 'rgba(255,255,255,0.9)';
+        ctx.lineWidth = Math.max(1, width / 500);
+        ctx.setLineDash([8, 6]);
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+        ctx.restore();
+    };
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        const ctx = getCtx();
+        if (!isActive || !ctx) return;
+        isDrawingRef.current = true;
+        saveState();
+        const pos = getPos(e);
+        if (tool === 'lasso-add' || tool === 'lasso-subtract') {
+            lassoRef.current = [pos];
+        } else {
+            lastPosRef.current = null;
+            strokeTo(ctx, pos);
+            render();
+        }
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        const ctx = getCtx();
+        if (!isDrawingRef.current || !ctx) return;
+        const pos = getPos(e);
+        if (tool === 'lasso-add' || tool === 'lasso-subtract') {
+            lassoRef.current.push(pos);
+            render(drawLassoPreview);
+        } else {
+            strokeTo(ctx, pos);
+            render();
+        }
+    };
+
+    const handleMouseUp = () => {
+        const ctx = getCtx();
+        if (!isDrawingRef.current || !ctx) return;
+        isDrawingRef.current = false;
+        if (tool === 'lasso-add' || tool === 'lasso-subtract') {
+            const points = lassoRef.current;
+            if (points.length > 2) {
+                ctx.save();
+                ctx.globalCompositeOperation = tool === 'lasso-add' ? 'source-over' : 'destination-out';
+                // Soft lasso edge; browsers without canvas filters just get a hard edge
+                const blur = (1 - hardness) * brushSize / 4;
+                if (blur > 0.5) ctx.filter = `blur(${blur}px)`;
+                ctx.fillStyle = 'white';
+                ctx.beginPath();
+                ctx.moveTo(points[0].x, points[0].y);
+                points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+                ctx.closePath();
+                ctx.fill();
+                ctx.restore();
+            }
+            lassoRef.current = [];
+        }
+        lastPosRef.current = null;
+        updateHasMask();
+    };
+
+    return (
+        <div className={`absolute inset-0 z-30 ${isActive ? 'pointer-events-auto' : 'pointer-events-none'}`}>
+            <canvas
+                ref={canvasRef}
+                width={width}
+                height={height}
+                className="w-full h-full touch-none cursor-crosshair"
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+            />
+        </div>
+    );
+});
@@ -6,17 +6,22 @@ interface ObjectLayerProps {
   object: DetectedObject;
   level: number;
   selectedObjectId: string | null;
-  onSelect: (id: string) => void;
+  selectedObjectIds?: string[]; // multi-selection (shift-click)
+  onSelect: (id: string, additive: boolean) => void;
   isExpanded: boolean;
   onToggleExpand: (id: string) => void;
   onRename: (id: string, newLabel: string) => void;
+  onDropObject?: (draggedId: string, targetId: string) => void; // drop onto a row = make it the parent
 }
 
-export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selectedObjectId, onSelect, isExpanded, onToggleExpand, onRename }) => {
-  const isSelected = selectedObjectId === object.id;
+export const OBJECT_DRAG_TYPE = 'application/x-object-id';
+
+export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selectedObjectId, selectedObjectIds, onSelect, isExpanded, onToggleExpand, onRename, onDropObject }) => {
+  const isSelected = selectedObjectId === object.id || !!selectedObjectIds?.includes(object.id);
   const hasChildren = object.children && object.children.length > 0;
   const [isEditing, setIsEditing] = useState(false);
   const [label, setLabel] = useState(object.label);
+  const [isDropTarget, setIsDropTarget] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // When the object prop changes from the parent, update the local label state
@@ -52,8 +57,28 @@ export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selecte
   return (
     <div>
       <div
-        onClick={() => onSelect(object.id)}
+        onClick={(e) => onSelect(object.id, e.shiftKey)}
         onDoubleClick={() => setIsEditing(true)}
+        draggable={!!onDropObject && !isEditing}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(OBJECT_DRAG_TYPE, object.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragOver={(e) => {
+          if (!onDropObject || !e.dataTransfer.types.includes(OBJECT_DRAG_TYPE)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(false);
+          const draggedId = e.dataTransfer.getData(OBJECT_DRAG_TYPE);
+          if (draggedId && draggedId !== object.id) onDropObject?.(draggedId, object.id);
+        }}
         style={{ marginLeft: `${level * 12}px` }}
         className={`
             p-3 mb-2 rounded-xl transition-all duration-200 cursor-pointer border flex items-center gap-3
@@ -61,6 +86,7 @@ export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selecte
                 ? 'bg-gradient-to-r from-[#3B82F6]/20 to-[#2563EB]/20 border-[#3B82F6] shadow-lg shadow-blue-500/20' 
                 : 'bg-[#27272A] border-[#3F3F46] hover:border-[#52525B] hover:bg-[#3F3F46]'
             }
+            ${isDropTarget ? 'ring-2 ring-emerald-400/70' : ''}
         `}
       >
         {hasChildren ? (
@@ -86,6 +112,9 @@ export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selecte
         ) : (
             <span className={`truncate flex-1 text-sm font-medium ${isSelected ? 'text-white' : 'text-[#A1A1AA]'}`} title="Double-click to rename">{object.label}</span>
         )}
+        {object.trackingStatus === 'new' && !isEditing && (
+            <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-300 flex-shrink-0" title="Not matched to an object in the previous image">NEW</span>
+        )}
       </div>
       {isExpanded && hasChildren && (
         <div>
@@ -95,10 +124,12 @@ export const ObjectLayer: React.FC<ObjectLayerProps> = ({ object, level, selecte
               object={child}
               level={level + 1}
               selectedObjectId={selectedObjectId}
+              selectedObjectIds={selectedObjectIds}
               onSelect={onSelect}
               isExpanded={isExpanded}
               onToggleExpand={onToggleExpand}
               onRename={onRename}
+              onDropObject={onDropObject}
             />
           ))}
         </div>
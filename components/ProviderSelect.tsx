@@ -0,0 +1,29 @@
+import React, { useState, useEffect } from 'react';
+import { listProviders, getActiveProviderId, setActiveProvider, subscribeToProviderChange } from '../services/aiProvider';
+
+interface ProviderSelectProps {
+  disabled?: boolean;
+}
+
+// AI backend picker. Renders nothing while only a single provider is registered.
+export const ProviderSelect: React.FC<ProviderSelectProps> = ({ disabled }) => {
+  const [activeProviderId, setActiveProviderId] = useState<string>(getActiveProviderId());
+  const availableProviders = listProviders();
+
+  useEffect(() => subscribeToProviderChange(setActiveProviderId), []);
+
+  if (availableProviders.length < 2) return null;
+
+  return (
+    <select
+      value={activeProviderId}
+      onChange={(e) => setActiveProvider(e.target.value)}
+      disabled={disabled}
+      className="px-3 py-2 bg-white/5 text-gray-300 rounded-lg text-sm border border-white/10 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+    >
+      {availableProviders.map(p => (
+        <option key={p.id} value={p.id} className="bg-[#18181B]">{p.label}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { EditorMode } from '../types';
+import { ProjectSummary, listProjects, loadProjectThumbnail, deleteProject } from '../services/projectStore';
+
+interface RecentProjectListProps {
+  onOpen: (projectId: string) => void | Promise<void>;
+}
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  UPLOAD: '이미지업로드',
+  OBJECT: '객체편집',
+  SKETCH: '스케치',
+  BLUEPRINT: '도면작업',
+  FINAL: '최종도면',
+};
+
+const MAX_SHOWN = 8;
+
+// Autosaved editor projects, most recent first; opening one restores the editor where it was left
+export const RecentProjectList: React.FC<RecentProjectListProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    listProjects().then(async summaries => {
+      if (cancelled) return;
+      const shown = summaries.slice(0, MAX_SHOWN);
+      setProjects(shown);
+      for (const summary of shown) {
+        const blob = await loadProjectThumbnail(summary);
+        if (cancelled || !blob) continue;
+        const url = URL.createObjectURL(blob);
+        urls.push(url);
+        setThumbnails(prev => ({ ...prev, [summary.id]: url }));
+      }
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const handleDelete = async (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    if (!window.confirm(`'${project.title}' 프로젝트를 삭제하시겠습니까?`)) return;
+    try {
+      await deleteProject(project.id);
+      setProjects(prev => prev.filter(p => p.id !== project.id));
+    } catch (error) {
+      console.warn('Could not delete project:', error);
+    }
+  };
+
+  const handleOpen = async (projectId: string) => {
+    setOpeningId(projectId);
+    try {
+      await onOpen(projectId);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="text-left">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-3">최근 프로젝트</h4>
+      <div className="grid grid-cols-4 gap-3">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            onClick={() => !openingId && handleOpen(project.id)}
+            className={`group relative cursor-pointer rounded-xl overflow-hidden bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 transition-all ${openingId === project.id ? 'opacity-60 animate-pulse' : ''}`}
+          >
+            <div className="aspect-square bg-black/40">
+              {thumbnails[project.id] && <img src={thumbnails[project.id]} alt={project.title} className="w-full h-full object-cover" />}
+            </div>
+            <div className="p-2">
+              <div className="text-xs text-white truncate">{project.title}</div>
+              <div className="text-[10px] text-gray-500 truncate">
+                {new Date(project.updatedAt).toLocaleString()} · {MODE_LABELS[project.mode]} · 버전 {project.versionCount}
+              </div>
+            </div>
+            <button
+              onClick={(e) => handleDelete(e, project)}
+              title="삭제"
+              className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/70 text-gray-300 hover:text-red-400 text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
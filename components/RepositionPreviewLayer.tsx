@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+import { BoundingBox, ObjectTransform } from '../types';
+import { cutOutObject, fillMaskedArea } from '../utils/maskUtils';
+
+export interface PreviewMove {
+  id: string;
+  mask: string;        // full-image object mask
+  box: BoundingBox;    // where the pixels come from
+  newBox: BoundingBox; // where they go
+  transform?: ObjectTransform;
+  duplicate: boolean;  // duplicates leave the original in place
+}
+
+interface RepositionPreviewLayerProps {
+  imageUrl: string;
+  moves: PreviewMove[];
+  layout: { top: number; left: number; width: number; height: number };
+}
+
+const PREVIEW_MAX_SIDE = 1024; // work on a downscaled copy, the preview only has to be roughly right
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image'));
+  img.src = src;
+});
+
+// Instant local stand-in for a reposition edit: moved objects are cut out with their masks and pasted
+// at their new boxes, their old spot gets a rough fill, duplicates are cloned. No model call involved.
+export const RepositionPreviewLayer: React.FC<RepositionPreviewLayerProps> = ({ imageUrl, moves, layout }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Per image: the decoded source, cut-outs per object, and the hole-filled background per set of moved objects
+  const cacheRef = useRef<{
+    imageUrl: string;
+    image: Promise<HTMLImageElement>;
+    cutouts: Map<string, Promise<HTMLCanvasElement>>;
+    background: { key: string; canvas: Promise<HTMLCanvasElement> } | null;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!cacheRef.current || cacheRef.current.imageUrl !== imageUrl) {
+      cacheRef.current = { imageUrl, image: loadImage(imageUrl), cutouts: new Map(), background: null };
+    }
+    const cache = cacheRef.current;
+
+    const render = async () => {
+      const image = await cache.image;
+      const scale = Math.min(1, PREVIEW_MAX_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+      const width = Math.round(image.naturalWidth * scale);
+      const height = Math.round(image.naturalHeight * scale);
+
+      const holes = moves.filter(m => !m.duplicate);
+      const backgroundKey = holes.map(m => m.id).sort().join('|');
+      if (!cache.background || cache.background.key !== backgroundKey) {
+        cache.background = {
+          key: backgroundKey,
+          canvas: (async () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+            ctx.drawImage(image, 0, 0, width, height);
+            await fillMaskedArea(ctx, holes.map(m => m.mask));
+            return canvas;
+          })(),
+        };
+      }
+      const cutouts = moves.map(m => {
+        const key = `${m.id}:${m.box.xMin},${m.box.yMin},${m.box.xMax},${m.box.yMax}`;
+        if (!cache.cutouts.has(key)) cache.cutouts.set(key, cutOutObject(image, m.mask, m.box, scale));
+        return cache.cutouts.get(key)!;
+      });
+      const [background, pieces] = await Promise.all([cache.background.canvas, Promise.all(cutouts)]);
+
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(background, 0, 0);
+      moves.forEach((move, i) => {
+        const w = (move.newBox.xMax - move.newBox.xMin) / 1000 * width;
+        const h = (move.newBox.yMax - move.newBox.yMin) / 1000 * height;
+        if (w < 1 || h < 1) return;
+        ctx.save();
+        ctx.translate((move.newBox.xMin + move.newBox.xMax) / 2000 * width, (move.newBox.yMin + move.newBox.yMax) / 2000 * height);
+        ctx.rotate((move.transform?.rotation || 0) * Math.PI / 180);
+        ctx.scale(move.transform?.flipHorizontal ? -1 : 1, move.transform?.flipVertical ? -1 : 1);
+        ctx.drawImage(pieces[i], -w / 2, -h / 2, w, h);
+        ctx.restore();
+      });
+    };
+
+    render().catch(e => console.warn('Could not render the reposition preview:', e));
+    return () => { cancelled = true; };
+  }, [imageUrl, moves]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        position: 'absolute',
+        top: layout.top,
+        left: layout.left,
+        width: layout.width,
+        height: layout.height,
+        pointerEvents: 'none',
+      }}
+    />
+  );
+};
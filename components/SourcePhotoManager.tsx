@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { UploadIcon } from './icons/UploadIcon';
+
+interface SourcePhotoManagerProps {
+  files: File[];
+  heroIndex: number;
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  onMove: (index: number, direction: -1 | 1) => void;
+  onSetHero: (index: number) => void;
+  disabled?: boolean;
+}
+
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Upload tab of the editor: the project's source photos. The hero photo is the one the studio shot
+// is built around; the others are extra angles for reference.
+export const SourcePhotoManager: React.FC<SourcePhotoManagerProps> = ({ files, heroIndex, onAdd, onRemove, onMove, onSetHero, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from<File>(e.target.files ?? []).filter(file => ACCEPTED_TYPES.includes(file.type));
+    if (added.length > 0) onAdd(added);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+    const added = Array.from<File>(e.dataTransfer.files).filter(file => ACCEPTED_TYPES.includes(file.type));
+    if (added.length > 0) onAdd(added);
+  };
+
+  const buttonClass = 'w-6 h-6 rounded-full bg-black/70 text-gray-300 text-[11px] hover:text-white disabled:opacity-30 disabled:hover:text-gray-300';
+
+  return (
+    <div className="w-full" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+      <input type="file" ref={inputRef} onChange={handleChange} className="hidden" accept={ACCEPTED_TYPES.join(', ')} multiple />
+      <div className="grid grid-cols-4 gap-3">
+        {files.map((file, i) => (
+          <div
+            key={previews[i]}
+            className={`group relative aspect-square rounded-xl overflow-hidden bg-black/40 border ${i === heroIndex ? 'border-yellow-400/80' : 'border-white/10'}`}
+          >
+            <img src={previews[i]} alt={file.name} className="w-full h-full object-cover" />
+            {i === heroIndex && (
+              <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded bg-yellow-400 text-black font-semibold">대표</span>
+            )}
+            <div className="absolute inset-x-1 bottom-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onMove(i, -1)} disabled={disabled || i === 0} title="앞으로" className={buttonClass}>◀</button>
+              <button onClick={() => onSetHero(i)} disabled={disabled || i === heroIndex} title="대표 사진으로 지정" className={buttonClass}>★</button>
+              <button
+                onClick={() => { if (window.confirm(`'${file.name}' 사진을 제거하시겠습니까?`)) onRemove(i); }}
+                disabled={disabled || files.length === 1}
+                title="제거"
+                className={`${buttonClass} hover:text-red-400`}
+              >
+                ✕
+              </button>
+              <button onClick={() => onMove(i, 1)} disabled={disabled || i === files.length - 1} title="뒤로" className={buttonClass}>▶</button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="aspect-square rounded-xl border-2 border-dashed border-[#3F3F46] hover:border-[#52525B] flex flex-col items-center justify-center gap-2 text-[#A1A1AA] text-xs transition-colors disabled:opacity-50"
+        >
+          <UploadIcon />
+          사진 추가
+        </button>
+      </div>
+      <p className="text-left text-[#A1A1AA] mt-3 text-xs">
+        작업 할 가구의 최대한 많은 다각도 이미지 첨부 · ★ 대표 사진을 기준으로 스튜디오샷을 만듭니다
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { STUDIO_PRESETS } from '../services/studioPresets';
+
+interface StudioPresetPickerProps {
+  selectedPresetId: string;
+  onSelect: (presetId: string) => void;
+  disabled?: boolean;
+}
+
+// Environment picker for the studio shot (background, floor, lighting, camera, aspect ratio)
+export const StudioPresetPicker: React.FC<StudioPresetPickerProps> = ({ selectedPresetId, onSelect, disabled }) => {
+  return (
+    <div className="grid grid-cols-2 gap-3 w-full">
+      {STUDIO_PRESETS.map(preset => {
+        const isSelected = preset.id === selectedPresetId;
+        return (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(preset.id)}
+            disabled={disabled}
+            className={`flex items-center gap-3 p-3 rounded-xl border text-left transition-all duration-200 disabled:opacity-50
+              ${isSelected ? 'border-blue-500/70 bg-blue-500/10' : 'border-white/10 bg-white/5 hover:border-white/20'}`}
+          >
+            <div className="w-10 h-10 rounded-lg border border-white/10 flex-shrink-0" style={{ backgroundColor: preset.swatch }} />
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-white truncate">{preset.label}</span>
+                <span className="text-[10px] text-gray-400 border border-white/10 rounded px-1">{preset.aspectRatio}</span>
+              </div>
+              <div className="text-xs text-[#A1A1AA] truncate">{preset.description}</div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -45,7 +45,15 @@ export const TechnicalDrawingExport: React.FC<TechnicalDrawingExportProps> = ({
     const [isExporting, setIsExporting] = useState(false);
     const [zoom, setZoom] = useState(1);
     const [fitToScreen, setFitToScreen] = useState(true);
-    const [tempMetadata, setTempMetadata] = useState(metadata);
+    // Only the field being typed in is held locally until blur; the rest follows the prop,
+    // so undo/redo in the editor shows up right away and a blur can't write stale values back
+    const [draft, setDraft] = useState<{ field: keyof typeof metadata; value: string } | null>(null);
+    const tempMetadata = draft ? { ...metadata, [draft.field]: draft.value } : metadata;
+    const commitDraft = () => {
+        if (!draft) return;
+        onMetadataChange(tempMetadata);
+        setDraft(null);
+    };
 
     // Calculate transform for dimensions to match the isometric image placement within the SVG
     // The dimensions were drawn on a 1974x1711 canvas in EditorView.
@@ -456,8 +464,8 @@ export const TechnicalDrawingExport: React.FC<TechnicalDrawingExportProps> = ({
                     <input
                         type="text"
                         value={tempMetadata.title}
-                        onChange={(e) => setTempMetadata({...tempMetadata, title: e.target.value})}
-                        onBlur={() => onMetadataChange(tempMetadata)}
+                        onChange={(e) => setDraft({ field: 'title', value: e.target.value })}
+                        onBlur={commitDraft}
                         placeholder="제목"
                         className="px-3 py-2 bg-white/5 text-white rounded-xl w-36 text-sm
                                  border border-white/10 focus:border-blue-500/50
@@ -467,8 +475,8 @@ export const TechnicalDrawingExport: React.FC<TechnicalDrawingExportProps> = ({
                     <input
                         type="text"
                         value={tempMetadata.date}
-                        onChange={(e) => setTempMetadata({...tempMetadata, date: e.target.value})}
-                        onBlur={() => onMetadataChange(tempMetadata)}
+                        onChange={(e) => setDraft({ field: 'date', value: e.target.value })}
+                        onBlur={commitDraft}
                         placeholder="날짜"
                         className="px-3 py-2 bg-white/5 text-white rounded-xl w-36 text-sm
                                  border border-white/10 focus:border-blue-500/50
@@ -478,8 +486,8 @@ export const TechnicalDrawingExport: React.FC<TechnicalDrawingExportProps> = ({
                     <input
                         type="text"
                         value={tempMetadata.notes}
-                        onChange={(e) => setTempMetadata({...tempMetadata, notes: e.target.value})}
-                        onBlur={() => onMetadataChange(tempMetadata)}
+                        onChange={(e) => setDraft({ field: 'notes', value: e.target.value })}
+                        onBlur={commitDraft}
                         placeholder="노트"
                         className="px-3 py-2 bg-white/5 text-white rounded-xl w-36 text-sm
                                  border border-white/10 focus:border-blue-500/50
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useReducer } from 'react';
+import {
+  getProjectUsage, getSessionUsage, getMonthToDateUsage, getUsageEntries, getUsageBudget, setUsageBudget,
+  subscribeToUsage, UsageTotals, UsageOutcome
+} from '../services/usageLedger';
+
+interface UsagePanelProps {
+  projectId: string;
+}
+
+const OUTCOME_LABELS: Partial<Record<UsageOutcome, string>> = {
+  success: '성공',
+  cached: '캐시',
+  cancelled: '취소',
+  quota: '한도 초과',
+  safety: '안전 차단',
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 3 : 2)}`;
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="flex items-center justify-between text-xs py-1">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-gray-200">
+      {totals.calls}회
+      {totals.cachedCalls > 0 && <span className="text-gray-500"> (+캐시 {totals.cachedCalls})</span>}
+      {' · '}{totals.totalTokens.toLocaleString()} 토큰 · {formatUsd(totals.estimatedCostUsd)}
+    </span>
+  </div>
+);
+
+// Header button with API usage for this project, this session and this month, plus the monthly budget
+export const UsagePanel: React.FC<UsagePanelProps> = ({ projectId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [warnInput, setWarnInput] = useState('');
+
+  useEffect(() => subscribeToUsage(refresh), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const budget = getUsageBudget();
+    setBudgetInput(budget.monthlyLimitUsd === null ? '' : String(budget.monthlyLimitUsd));
+    setWarnInput(String(budget.warnAtPercent));
+  }, [isOpen]);
+
+  const projectUsage = getProjectUsage(projectId);
+  const monthUsage = getMonthToDateUsage();
+  const budget = getUsageBudget();
+  const recentEntries = getUsageEntries().filter(e => e.projectId === projectId).slice(-8).reverse();
+
+  const handleSaveBudget = () => {
+    const limit = parseFloat(budgetInput);
+    const warnAt = parseInt(warnInput, 10);
+    setUsageBudget({
+      monthlyLimitUsd: Number.isFinite(limit) && limit > 0 ? limit : null,
+      warnAtPercent: Number.isFinite(warnAt) ? Math.min(100, Math.max(1, warnAt)) : budget.warnAtPercent,
+    });
+  };
+
+  const isOverBudget = budget.monthlyLimitUsd !== null && monthUsage.estimatedCostUsd > budget.monthlyLimitUsd;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`px-3 py-2 rounded-lg text-xs border transition-colors ${isOverBudget ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'}`}
+        title="API 사용량"
+      >
+        사용량 {formatUsd(projectUsage.estimatedCostUsd)}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-[#18181B] border border-white/10 rounded-xl shadow-2xl p-4 z-50">
+          <div className="text-sm font-semibold text-white mb-2">API 사용량 (추정)</div>
+          <TotalsRow label="이 프로젝트" totals={projectUsage} />
+          <TotalsRow label="이번 세션" totals={getSessionUsage()} />
+          <TotalsRow label="이번 달" totals={monthUsage} />
+
+          <div className="border-t border-white/10 my-3" />
+          <div className="text-xs text-gray-400 mb-2">월 예산</div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500">$</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="제한 없음"
+              className="w-20 px-2 py-1 bg-white/5 border border-white/10 rounded text-xs text-white focus:outline-none focus:border-blue-500/50"
+            />
+            <span className="text-xs text-gray-500">경고</span>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={warnInput}
+              onChange={(e) => setWarnInput(e.target.value)}
+              className="w-14 px-2 py-1 bg-white/5 border border-white/10 rounded text-xs text-white focus:outline-none focus:border-blue-500/50"
+            />
+            <span className="text-xs text-gray-500">%</span>
+            <button onClick={handleSaveBudget} className="ml-auto px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs">저장</button>
+          </div>
+          {budget.monthlyLimitUsd !== null && (
+            <div className="mt-2 h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${isOverBudget ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, monthUsage.estimatedCostUsd / budget.monthlyLimitUsd * 100)}%` }}
+              />
+            </div>
+          )}
+
+          {recentEntries.length > 0 && (
+            <>
+              <div className="border-t border-white/10 my-3" />
+              <div className="text-xs text-gray-400 mb-1">최근 호출</div>
+              <ul className="space-y-1">
+                {recentEntries.map(entry => (
+                  <li key={entry.id} className="flex justify-between text-[11px]">
+                    <span className={entry.outcome === 'success' || entry.outcome === 'cached' ? 'text-gray-300' : 'text-red-300'}>
+                      {entry.task}
+                      {entry.retries > 0 && <span className="text-gray-500"> · 재시도 {entry.retries}</span>}
+                    </span>
+                    <span className="text-gray-500">
+                      {OUTCOME_LABELS[entry.outcome] || entry.outcome} · {(entry.latencyMs / 1000).toFixed(1)}s · {entry.totalTokens.toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
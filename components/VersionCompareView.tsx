@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageVariation } from '../types';
+import { createDifferenceHeatmap } from '../utils/imageUtils';
+import { OPERATION_LABELS } from './VersionHistoryPanel';
+
+interface VersionCompareViewProps {
+  versions: ImageVariation[];
+  beforeId: string;
+  afterId: string;
+  onClose: () => void;
+}
+
+type CompareMode = 'split' | 'side' | 'blink' | 'diff';
+
+const COMPARE_MODES: { key: CompareMode, label: string }[] = [
+  { key: 'split', label: '분할' },
+  { key: 'side', label: '나란히' },
+  { key: 'blink', label: '깜빡임' },
+  { key: 'diff', label: '차이' },
+];
+
+const BLINK_INTERVAL = 600; // ms
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+// Full-screen before/after comparison of two versions. Zoom (wheel) and pan (drag) are shared by
+// every pane, so side-by-side views stay in sync.
+export const VersionCompareView: React.FC<VersionCompareViewProps> = ({ versions, beforeId: initialBeforeId, afterId: initialAfterId, onClose }) => {
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [compareMode, setCompareMode] = useState<CompareMode>('split');
+  const [splitPosition, setSplitPosition] = useState(50); // % from the left
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isBlinking, setIsBlinking] = useState(true);
+  const [blinkShowsAfter, setBlinkShowsAfter] = useState(true);
+  const [heatmap, setHeatmap] = useState<{ url: string, changedRatio: number } | null>(null);
+  const [isComputingDiff, setIsComputingDiff] = useState(false);
+  const [drag, setDrag] = useState<'pan' | 'split' | null>(null);
+  const dragStart = useRef({ x: 0, y: 0, panX: 0, panY: 0 });
+  const splitPaneRef = useRef<HTMLDivElement>(null);
+
+  const before = versions.find(v => v.id === beforeId);
+  const after = versions.find(v => v.id === afterId);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    if (compareMode !== 'blink' || !isBlinking) return;
+    const timer = setInterval(() => setBlinkShowsAfter(show => !show), BLINK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [compareMode, isBlinking]);
+
+  useEffect(() => {
+    if (compareMode !== 'diff' || !before || !after) return;
+    let cancelled = false;
+    setIsComputingDiff(true);
+    createDifferenceHeatmap(before.imageUrl, after.imageUrl)
+      .then(result => { if (!cancelled) setHeatmap({ url: result.heatmapUrl, changedRatio: result.changedRatio }); })
+      .catch(e => { if (!cancelled) { console.warn('Could not compute the difference heatmap:', e); setHeatmap(null); } })
+      .finally(() => { if (!cancelled) setIsComputingDiff(false); });
+    return () => { cancelled = true; };
+  }, [compareMode, before?.imageUrl, after?.imageUrl]);
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      if (drag === 'split') {
+        const rect = splitPaneRef.current?.getBoundingClientRect();
+        if (rect) setSplitPosition(Math.min(100, Math.max(0, (e.clientX - rect.left) / rect.width * 100)));
+      } else {
+        setPan({ x: dragStart.current.panX + e.clientX - dragStart.current.x, y: dragStart.current.panY + e.clientY - dragStart.current.y });
+      }
+    };
+    const handleMouseUp = () => setDrag(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag]);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    setZoom(next);
+    if (next === MIN_ZOOM) setPan({ x: 0, y: 0 });
+  };
+
+  const startPan = (e: React.MouseEvent) => {
+    e.preventDefault();
+    dragStart.current = { x: e.clientX, y: e.clientY, panX: pan.x, panY: pan.y };
+    setDrag('pan');
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const swapVersions = () => {
+    setBeforeId(afterId);
+    setAfterId(beforeId);
+  };
+
+  const transformStyle: React.CSSProperties = {
+    transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+    transformOrigin: 'center center',
+  };
+
+  const renderImage = (url: string, alt: string) => (
+    <img
+      src={url}
+      alt={alt}
+      draggable={false}
+      className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none"
+      style={transformStyle}
+    />
+  );
+
+  const paneClass = `relative flex-1 overflow-hidden bg-[#111113] rounded-xl border border-white/10 ${drag === 'pan' ? 'cursor-grabbing' : 'cursor-grab'}`;
+
+  const versionLabel = (version: ImageVariation) =>
+    `${version.title || version.id}${version.operation ? ` · ${OPERATION_LABELS[version.operation]}` : ''}`;
+
+  const renderSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="max-w-[220px] px-2 py-1.5 bg-white/5 text-white rounded-lg border border-white/10 text-xs focus:outline-none"
+      >
+        {versions.map(v => <option key={v.id} value={v.id} className="bg-[#18181B]">{versionLabel(v)}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur-md flex flex-col">
+      <div className="flex items-center gap-4 px-6 h-16 border-b border-white/10 flex-shrink-0">
+        <h3 className="text-white font-semibold tracking-wide">버전 비교</h3>
+        {renderSelect('이전', beforeId, setBeforeId)}
+        <button onClick={swapVersions} title="바꾸기" className="px-2 py-1.5 rounded-lg text-xs bg-white/5 hover:bg-white/10 text-gray-300">⇄</button>
+        {renderSelect('이후', afterId, setAfterId)}
+        <div className="flex bg-white/5 rounded-lg p-1 border border-white/10 text-xs ml-4">
+          {COMPARE_MODES.map(m => (
+            <button
+              key={m.key}
+              onClick={() => setCompareMode(m.key)}
+              className={`px-3 py-1.5 rounded-md transition-colors ${compareMode === m.key ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        {compareMode === 'blink' && (
+          <button
+            onClick={() => setIsBlinking(b => !b)}
+            className="px-3 py-1.5 rounded-lg text-xs bg-white/5 hover:bg-white/10 text-gray-300"
+          >
+            {isBlinking ? '정지' : '재생'}
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-blue-400">{Math.round(zoom * 100)}%</span>
+          <button onClick={resetView} className="px-3 py-1.5 rounded-lg text-xs bg-white/5 hover:bg-white/10 text-gray-300">맞춤</button>
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs bg-white/10 hover:bg-white/20 text-white">닫기</button>
+        </div>
+      </div>
+
+      {!before || !after ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">비교할 버전을 선택하세요.</div>
+      ) : (
+        <div className="flex-1 min-h-0 flex gap-4 p-6">
+          {compareMode === 'split' && (
+            <div ref={splitPaneRef} className={paneClass} onWheel={handleWheel} onMouseDown={startPan}>
+              {renderImage(before.imageUrl, before.title)}
+              {/* Clip in pane coordinates, outside the zoom/pan transform, so the cut stays on the handle */}
+              <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 0 0 ${splitPosition}%)` }}>
+                {renderImage(after.imageUrl, after.title)}
+              </div>
+              <div
+                className="absolute top-0 bottom-0 w-1 bg-white/80 cursor-ew-resize"
+                style={{ left: `${splitPosition}%`, transform: 'translateX(-50%)' }}
+                onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); setDrag('split'); }}
+              >
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black text-xs flex items-center justify-center shadow-lg">⇔</div>
+              </div>
+              <span className="absolute top-3 left-3 text-[11px] px-2 py-1 rounded bg-black/60 text-gray-300">이전</span>
+              <span className="absolute top-3 right-3 text-[11px] px-2 py-1 rounded bg-black/60 text-gray-300">이후</span>
+            </div>
+          )}
+
+          {compareMode === 'side' && [before, after].map((version, i) => (
+            <div key={i} className={paneClass} onWheel={handleWheel} onMouseDown={startPan}>
+              {renderImage(version.imageUrl, version.title)}
+              <span className="absolute top-3 left-3 text-[11px] px-2 py-1 rounded bg-black/60 text-gray-300">{i === 0 ? '이전' : '이후'} · {versionLabel(version)}</span>
+            </div>
+          ))}
+
+          {compareMode === 'blink' && (
+            <div className={paneClass} onWheel={handleWheel} onMouseDown={startPan} onDoubleClick={() => setBlinkShowsAfter(show => !show)}>
+              {renderImage(blinkShowsAfter ? after.imageUrl : before.imageUrl, blinkShowsAfter ? after.title : before.title)}
+              <span className="absolute top-3 left-3 text-[11px] px-2 py-1 rounded bg-black/60 text-gray-300">{blinkShowsAfter ? '이후' : '이전'}</span>
+            </div>
+          )}
+
+          {compareMode === 'diff' && (
+            <div className={paneClass} onWheel={handleWheel} onMouseDown={startPan}>
+              {heatmap && renderImage(heatmap.url, '차이')}
+              {isComputingDiff && <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">차이 계산 중...</div>}
+              {heatmap && !isComputingDiff && (
+                <span className="absolute top-3 left-3 text-[11px] px-2 py-1 rounded bg-black/60 text-gray-300">
+                  변경된 픽셀 {(heatmap.changedRatio * 100).toFixed(1)}% · 노란색 약한 변화 → 빨간색 강한 변화
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
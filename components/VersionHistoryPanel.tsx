@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { ImageVariation, VersionOperation } from '../types';
+import { buildVersionTree, isInBranch, VersionNode } from '../utils/versionTree';
+
+interface VersionHistoryPanelProps {
+  versions: ImageVariation[];
+  currentId?: string;
+  onSelect: (version: ImageVariation) => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onPrune: (id: string) => void;
+  onCompare?: (version: ImageVariation) => void; // compare against its parent
+}
+
+export const OPERATION_LABELS: Record<VersionOperation, string> = {
+  initial: '원본',
+  edit: '편집',
+  reposition: '배치',
+  sketch: '스케치',
+  blueprint: '도면',
+};
+
+// Left sidebar of the editor: the version tree, each branch indented under the version it came from
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ versions, currentId, onSelect, onRename, onTogglePin, onPrune, onCompare }) => {
+  const tree = useMemo(() => buildVersionTree(versions), [versions]);
+  const [editing, setEditing] = useState<{ id: string, title: string } | null>(null);
+
+  const commitRename = () => {
+    if (editing && editing.title.trim()) onRename(editing.id, editing.title.trim());
+    setEditing(null);
+  };
+
+  const renderNode = (node: VersionNode, depth: number): React.ReactNode => {
+    const { version } = node;
+    const isCurrent = version.id === currentId;
+    // The branch holding the open image can't be pruned; pinned versions are protected too
+    const canPrune = !version.pinned && !(currentId && isInBranch(versions, version.id, currentId));
+    return (
+      <div key={version.id} className={depth > 0 ? 'ml-2 pl-2 border-l border-white/10' : ''}>
+        <div
+          className={`group cursor-pointer mb-2 rounded-xl overflow-hidden bg-white/5 hover:bg-white/10 transition-all duration-300 border ${isCurrent ? 'border-blue-500/70' : 'border-white/10 hover:border-white/20'}`}
+          onClick={() => onSelect(version)}
+        >
+          <img src={version.imageUrl} alt={version.title} className="w-full h-auto rounded-t-xl"/>
+          <div className="p-2 space-y-1">
+            {editing?.id === version.id ? (
+              <input
+                autoFocus
+                value={editing.title}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setEditing({ id: version.id, title: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                className="w-full px-1 py-0.5 text-xs bg-black/60 text-white rounded border border-white/20 focus:outline-none"
+              />
+            ) : (
+              <span
+                className="block text-xs text-gray-400 group-hover:text-white truncate transition-colors"
+                title="더블클릭하여 이름 변경"
+                onDoubleClick={(e) => { e.stopPropagation(); setEditing({ id: version.id, title: version.title }); }}
+              >
+                {version.pinned && '📌 '}{version.title || '이름 없음'}
+              </span>
+            )}
+            <div className="flex items-center justify-between">
+              {version.operation && (
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/10 text-gray-400">{OPERATION_LABELS[version.operation]}</span>
+              )}
+              <div className="flex gap-1 ml-auto opacity-0 group-hover:opacity-100 transition-opacity">
+                {onCompare && version.parentId && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onCompare(version); }}
+                    title="이전 버전과 비교"
+                    className="text-[10px] px-1 rounded text-gray-500 hover:text-white"
+                  >
+                    ⇄
+                  </button>
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); onTogglePin(version.id); }}
+                  title={version.pinned ? '고정 해제' : '고정'}
+                  className={`text-[10px] px-1 rounded ${version.pinned ? 'text-yellow-300' : 'text-gray-500 hover:text-white'}`}
+                >
+                  📌
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (window.confirm('이 버전과 여기서 파생된 버전을 삭제하시겠습니까? (고정된 버전은 유지됩니다)')) onPrune(version.id);
+                  }}
+                  disabled={!canPrune}
+                  title="이 버전과 하위 버전 삭제"
+                  className="text-[10px] px-1 rounded text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return <div className="flex flex-col">{tree.map(node => renderNode(node, 0))}</div>;
+};
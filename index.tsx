@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { initI18n } from './i18n';
+import { initPromptRegistry } from './services/promptRegistry';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -17,8 +18,8 @@ root.render(
   </div>
 );
 
-// Initialize i18n and then render the main app
-initI18n().then(() => {
+// Initialize i18n and the prompt templates, then render the main app
+Promise.all([initI18n(), initPromptRegistry()]).then(() => {
   root.render(
     <React.StrictMode>
       <App />
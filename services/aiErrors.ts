@@ -0,0 +1,150 @@
+import { isAbortError } from "../utils/abortUtils";
+
+// Typed errors produced by every AI service call. The UI switches on `kind` to offer the
+// right recovery action instead of matching on message text.
+
+export type AiErrorKind =
+    | 'quota'
+    | 'safety'
+    | 'empty-image'
+    | 'transient'
+    | 'invalid-input'
+    | 'cancelled'
+    | 'unknown';
+
+export class AiError extends Error {
+    readonly kind: AiErrorKind = 'unknown';
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message);
+        this.name = 'AiError';
+        if (options?.cause !== undefined) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+export class QuotaExceededError extends AiError {
+    readonly kind = 'quota';
+
+    constructor(message = "API usage limit reached (Quota Exceeded). Please wait a moment and try again.", options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class SafetyBlockedError extends AiError {
+    readonly kind = 'safety';
+    readonly blockReason: string;
+
+    constructor(blockReason: string, options?: { cause?: unknown }) {
+        super(`Image generation was blocked. Reason: ${blockReason}`, options);
+        this.name = 'SafetyBlockedError';
+        this.blockReason = blockReason;
+    }
+}
+
+export class EmptyImageResponseError extends AiError {
+    readonly kind = 'empty-image';
+    readonly modelText?: string;
+
+    constructor(modelText?: string, options?: { cause?: unknown }) {
+        super(modelText
+            ? `The AI failed to generate an image and returned this message: "${modelText}"`
+            : 'The API did not return an image. The response may have been blocked.', options);
+        this.name = 'EmptyImageResponseError';
+        this.modelText = modelText;
+    }
+}
+
+export class TransientAiError extends AiError {
+    readonly kind = 'transient';
+    readonly status?: number;
+
+    constructor(message = "The AI service is temporarily unavailable.", status?: number, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'TransientAiError';
+        this.status = status;
+    }
+}
+
+export class InvalidInputError extends AiError {
+    readonly kind = 'invalid-input';
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'InvalidInputError';
+    }
+}
+
+export class CancelledError extends AiError {
+    readonly kind = 'cancelled';
+
+    constructor(message = "The operation was cancelled.", options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'CancelledError';
+    }
+}
+
+// Errors worth retrying automatically with backoff
+export const isRetryableAiError = (error: unknown): boolean => {
+    return error instanceof TransientAiError || error instanceof QuotaExceededError;
+};
+
+export const isCancelledError = (error: unknown): boolean => {
+    return error instanceof CancelledError || isAbortError(error);
+};
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+    if (signal?.aborted) {
+        throw new CancelledError();
+    }
+};
+
+const TRANSIENT_CODES = ['UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED'];
+
+// HTTP status and RPC status code of an SDK error. The SDK puts the status on the error and the
+// JSON error body ({"error":{"code":503,"status":"UNAVAILABLE",...}}) in the message; the text is
+// only read for those fields, never for bare numbers that may belong to a prompt or a size.
+const readErrorStatus = (error: unknown, message: string): { status?: number, code?: string } => {
+    const fields = (error ?? {}) as { status?: unknown, code?: unknown };
+    let status = typeof fields.status === 'number' ? fields.status
+        : typeof fields.code === 'number' ? fields.code
+        : undefined;
+    let code = typeof fields.status === 'string' && /^[A-Z_]+$/.test(fields.status) ? fields.status : undefined;
+
+    if (status === undefined) {
+        const match = message.match(/"code"\s*:\s*(\d{3})\b/) ?? message.match(/\bgot status: (\d{3})\b/);
+        if (match) status = Number(match[1]);
+    }
+    if (code === undefined) {
+        const match = message.match(/"status"\s*:\s*"([A-Z_]+)"/) ?? message.match(/\bgot status: ([A-Z_]+)\b/);
+        if (match) code = match[1];
+    }
+    // Other numeric codes (e.g. DOMException's) aren't HTTP statuses
+    return { status: status !== undefined && status >= 400 && status < 600 ? status : undefined, code };
+};
+
+/**
+ * Maps any thrown value (SDK errors, fetch aborts, plain Errors) onto the typed taxonomy.
+ * Values that already are an AiError pass through unchanged.
+ */
+export const classifyAiError = (error: unknown, fallbackMessage = 'AI request failed.'): AiError => {
+    if (error instanceof AiError) return error;
+    if (isAbortError(error)) return new CancelledError(undefined, { cause: error });
+
+    const message = error instanceof Error ? error.message : String(error ?? '');
+    const { status, code } = readErrorStatus(error, message);
+
+    if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+        return new QuotaExceededError(undefined, { cause: error });
+    }
+    if ((status !== undefined && status >= 500) || (code !== undefined && TRANSIENT_CODES.includes(code))) {
+        return new TransientAiError(message || undefined, status, { cause: error });
+    }
+    if (status === 400 || code === 'INVALID_ARGUMENT') {
+        return new InvalidInputError(message, { cause: error });
+    }
+
+    return new AiError(message || fallbackMessage, { cause: error });
+};
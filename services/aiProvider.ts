@@ -0,0 +1,156 @@
+import { ApiObject } from "../types";
+
+// Contract every AI backend has to satisfy. geminiService builds the prompts for each
+// editor step and hands them to whichever provider is active, so swapping backends
+// never touches the prompt logic or the UI.
+
+export interface InlineImage {
+    base64Data: string; // no data: prefix
+    mimeType: string;
+}
+
+// Which editor step a request belongs to. Model-backed providers can ignore it,
+// providers that don't call a model use it to decide what to render.
+export type ImageTask =
+    | 'studio-shot'
+    | 'isometric-side'
+    | 'isometric-3d'
+    | 'blueprint-style'
+    | 'blueprint-dimensions'
+    | 'orthographic-front'
+    | 'orthographic-side'
+    | 'sketch-edit'
+    | 'masked-edit'
+    | 'reposition'
+    | 'variation';
+
+export interface ImageGenerationConfig {
+    aspectRatio?: string;
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+}
+
+// Token counts the model reported for one request (thinking tokens count as output)
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+// Called once the model has answered, even when the answer turns out to be unusable
+export type UsageCallback = (usage: TokenUsage) => void;
+
+export interface ImageEditRequest {
+    task: ImageTask;
+    images: InlineImage[];
+    prompt: string;
+    config?: ImageGenerationConfig;
+    signal?: AbortSignal;
+    onUsage?: UsageCallback;
+}
+
+export interface MaskedEditRequest extends ImageEditRequest {
+    maskBase64: string; // white = editable, black = preserve
+}
+
+export interface ImageResult {
+    base64Data: string;
+    mimeType: string;
+    text?: string; // any text the model returned alongside the image
+}
+
+export interface SegmentationRequest {
+    image: InlineImage;
+    prompt: string;
+    signal?: AbortSignal;
+    onUsage?: UsageCallback;
+}
+
+export interface PlanningRequest {
+    images: InlineImage[];
+    userPrompt: string;
+    systemInstruction: string;
+    useWebSearch: boolean;
+    signal?: AbortSignal;
+    onUsage?: UsageCallback;
+}
+
+export interface EditPlan {
+    textResponse: string;
+    imagePrompts: string[];
+    followUpSuggestions: string[];
+    groundingMetadata?: any;
+}
+
+export interface ImageGenerationProvider {
+    editImage: (request: ImageEditRequest) => Promise<ImageResult>;
+    editImageWithMask: (request: MaskedEditRequest) => Promise<ImageResult>;
+}
+
+export interface VisionProvider {
+    segmentObjects: (request: SegmentationRequest) => Promise<ApiObject[]>;
+    planEdits: (request: PlanningRequest) => Promise<EditPlan>;
+}
+
+export interface AiProvider extends ImageGenerationProvider, VisionProvider {
+    id: string;
+    label: string;
+    imageModelId: string; // part of the generation cache key, bump it when outputs change
+    visionModelId: string;
+}
+
+// --- Provider registry ---
+
+const ACTIVE_PROVIDER_STORAGE_KEY = 'appenz.aiProvider';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, AiProvider>();
+const listeners = new Set<(providerId: string) => void>();
+
+const readStoredProviderId = (): string => {
+    try {
+        return localStorage.getItem(ACTIVE_PROVIDER_STORAGE_KEY) || DEFAULT_PROVIDER_ID;
+    } catch {
+        return DEFAULT_PROVIDER_ID;
+    }
+};
+
+let activeProviderId = readStoredProviderId();
+
+export const registerProvider = (provider: AiProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const listProviders = (): AiProvider[] => Array.from(providers.values());
+
+export const getActiveProviderId = (): string => {
+    // Fall back to the default if the stored id belongs to a provider that is no longer registered
+    return providers.has(activeProviderId) ? activeProviderId : DEFAULT_PROVIDER_ID;
+};
+
+export const getActiveProvider = (): AiProvider => {
+    const provider = providers.get(getActiveProviderId());
+    if (!provider) {
+        throw new Error(`No AI provider registered for "${getActiveProviderId()}".`);
+    }
+    return provider;
+};
+
+export const setActiveProvider = (providerId: string) => {
+    if (!providers.has(providerId)) {
+        throw new Error(`Unknown AI provider "${providerId}".`);
+    }
+    activeProviderId = providerId;
+    try {
+        localStorage.setItem(ACTIVE_PROVIDER_STORAGE_KEY, providerId);
+    } catch {
+        // Storage can be unavailable (private mode); the selection still applies for this session
+    }
+    listeners.forEach(listener => listener(providerId));
+};
+
+export const subscribeToProviderChange = (listener: (providerId: string) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
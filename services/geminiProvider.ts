@@ -0,0 +1,267 @@
+import { GoogleGenAI, Type, GenerateContentResponse, GenerateContentParameters, FinishReason } from "@google/genai";
+import { ApiObject } from "../types";
+import { AiError, SafetyBlockedError, EmptyImageResponseError, classifyAiError } from "./aiErrors";
+import { AiProvider, ImageEditRequest, MaskedEditRequest, ImageResult, SegmentationRequest, PlanningRequest, EditPlan, UsageCallback } from "./aiProvider";
+
+// Model ids used by the Gemini backend. The image model requires a valid paid API key.
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
+const VISION_MODEL = 'gemini-2.5-flash';
+
+// Removed lazy initialization of AI client to ensure fresh key usage
+const getAiClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+      throw new Error("API_KEY environment variable not set. Please configure it to use the AI features.");
+    }
+    // Always create a new instance to pick up any dynamic key changes from the environment/dialog
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Finish reasons that mean the candidate was withheld by a safety filter
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+];
+
+// Single entry point to the SDK so every transport error is mapped onto the typed taxonomy
+// and every answered request reports its token usage
+const generateContent = async (params: GenerateContentParameters, onUsage?: UsageCallback): Promise<GenerateContentResponse> => {
+    let response: GenerateContentResponse;
+    try {
+        response = await getAiClient().models.generateContent(params);
+    } catch (error) {
+        throw classifyAiError(error);
+    }
+    const usage = response.usageMetadata;
+    if (usage && onUsage) {
+        const outputTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+        onUsage({
+            promptTokens: usage.promptTokenCount || 0,
+            outputTokens,
+            totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + outputTokens,
+        });
+    }
+    return response;
+};
+
+// Helper to extract a JSON object or array from a string that might contain extraneous text or markdown fences.
+const extractJson = (text: string): string => {
+    // First, try to find JSON within markdown fences (```json ... ```)
+    const markdownMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
+    if (markdownMatch && markdownMatch[1]) {
+        return markdownMatch[1].trim();
+    }
+
+    // If no markdown fence, find the first '{' or '[' and the last '}' or ']'
+    const firstBracket = text.indexOf('[');
+    const firstBrace = text.indexOf('{');
+
+    let start = -1;
+
+    if (firstBracket === -1) {
+        start = firstBrace;
+    } else if (firstBrace === -1) {
+        start = firstBracket;
+    } else {
+        start = Math.min(firstBracket, firstBrace);
+    }
+
+    if (start === -1) {
+        // If we found neither, the response is not valid JSON.
+        // It could be a conversational refusal from the model.
+        throw new AiError(`Could not find a valid JSON object or array in the response. Model returned: "${text}"`);
+    }
+
+    const lastBracket = text.lastIndexOf(']');
+    const lastBrace = text.lastIndexOf('}');
+
+    const end = Math.max(lastBracket, lastBrace);
+
+    if (end === -1 || end < start) {
+        throw new AiError(`Could not find a valid JSON object or array in the response. Model returned: "${text}"`);
+    }
+
+    return text.substring(start, end + 1);
+};
+
+// Pulls the generated image out of a response, surfacing block reasons and model text when there is none.
+const extractImageResult = (response: GenerateContentResponse): ImageResult => {
+    if (!response.candidates || response.candidates.length === 0) {
+        if (response.promptFeedback?.blockReason) {
+            throw new SafetyBlockedError(response.promptFeedback.blockReason);
+        }
+        throw new EmptyImageResponseError();
+    }
+
+    const candidate = response.candidates[0];
+
+    if (!candidate.content?.parts) {
+        if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+            throw new SafetyBlockedError(candidate.finishReason);
+        }
+        throw new EmptyImageResponseError();
+    }
+
+    let returnedImage: { data: string, mimeType: string } | null = null;
+    let returnedText: string | null = null;
+
+    for (const part of candidate.content.parts) {
+        if (part.inlineData && part.inlineData.data) {
+            returnedImage = { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+        } else if (part.text) {
+            returnedText = part.text;
+        }
+    }
+
+    if (returnedImage) {
+        return { base64Data: returnedImage.data, mimeType: returnedImage.mimeType, text: returnedText || undefined };
+    }
+
+    if (!returnedText && candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+        throw new SafetyBlockedError(candidate.finishReason);
+    }
+
+    throw new EmptyImageResponseError(returnedText || undefined);
+};
+
+const buildImageConfig = (request: ImageEditRequest) => {
+    const { aspectRatio, ...sampling } = request.config || {};
+    return {
+        ...sampling,
+        ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+        abortSignal: request.signal,
+    };
+};
+
+const editImage = async (request: ImageEditRequest): Promise<ImageResult> => {
+    const imageParts = request.images.map(img => ({ inlineData: { data: img.base64Data, mimeType: img.mimeType } }));
+
+    const response = await generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [...imageParts, { text: request.prompt }] },
+        config: buildImageConfig(request),
+    }, request.onUsage);
+
+    return extractImageResult(response);
+};
+
+const editImageWithMask = async (request: MaskedEditRequest): Promise<ImageResult> => {
+    const imageParts = request.images.map(img => ({ inlineData: { data: img.base64Data, mimeType: img.mimeType } }));
+
+    // Order matters for inpainting: [Image, Mask, Prompt] is generally more robust
+    const response = await generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [
+                ...imageParts,
+                { inlineData: { data: request.maskBase64, mimeType: 'image/png' } },
+                { text: request.prompt },
+            ]
+        },
+        config: buildImageConfig(request),
+    }, request.onUsage);
+
+    return extractImageResult(response);
+};
+
+const objectSegmentationSchema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING },
+        parentId: { type: Type.STRING },
+        label: { type: Type.STRING },
+        mask: { type: Type.STRING }, // PNG probability map covering box_2d
+        box_2d: {
+          type: Type.ARRAY,
+          items: { type: Type.NUMBER },
+          minItems: 4,
+          maxItems: 4,
+        },
+      },
+      required: ["id", "parentId", "label", "box_2d"]
+    }
+};
+
+const segmentObjects = async (request: SegmentationRequest): Promise<ApiObject[]> => {
+    const response = await generateContent({
+        model: VISION_MODEL,
+        contents: {
+            parts: [
+                { inlineData: { data: request.image.base64Data, mimeType: request.image.mimeType } },
+                { text: request.prompt }
+            ]
+        },
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: objectSegmentationSchema,
+            thinkingConfig: { thinkingBudget: 0 },
+            abortSignal: request.signal,
+        }
+    }, request.onUsage);
+
+    console.log(`Raw JSON response from Gemini for segmentation: ${(response.text || '').length} chars`);
+
+    // FIX: Use extractJson instead of JSON.parse directly to handle potential markdown wrapping
+    const detectedObjects = JSON.parse(extractJson(response.text || ''));
+
+    if (!Array.isArray(detectedObjects)) {
+        throw new AiError("API returned an invalid format for object segmentation.");
+    }
+
+    return detectedObjects;
+};
+
+const planEdits = async (request: PlanningRequest): Promise<EditPlan> => {
+    const tools: any[] = [];
+    if (request.useWebSearch) {
+        tools.push({ googleSearch: {} });
+    }
+
+    const response = await generateContent({
+        model: VISION_MODEL,
+        contents: {
+            parts: [
+                ...request.images.map(img => ({ inlineData: { data: img.base64Data, mimeType: img.mimeType } })),
+                { text: request.userPrompt }
+            ]
+        },
+        config: {
+            systemInstruction: request.systemInstruction,
+            responseMimeType: 'application/json',
+            tools: tools.length > 0 ? tools : undefined,
+            abortSignal: request.signal,
+        }
+    }, request.onUsage);
+
+    let plan: any = {};
+    if (response.text) {
+        try {
+            plan = JSON.parse(extractJson(response.text));
+        } catch (e) {
+            console.warn("Failed to parse planning JSON", e);
+        }
+    }
+
+    return {
+        textResponse: plan.textResponse || "I'm generating variations based on your prompt.",
+        imagePrompts: Array.isArray(plan.imagePrompts) ? plan.imagePrompts : [],
+        followUpSuggestions: plan.followUpSuggestions || [],
+        groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+    };
+};
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    imageModelId: IMAGE_MODEL,
+    visionModelId: VISION_MODEL,
+    editImage,
+    editImageWithMask,
+    segmentObjects,
+    planEdits,
+};
@@ -1,7 +1,60 @@
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { ImageVariation, ApiObject, BoundingBox } from "../types";
+import { ImageVariation, ApiObject, BoundingBox, ObjectTransform, PromptTemplateRef } from "../types";
 import { getCurrentLanguage } from "../i18n";
 import { resizeBase64, resizeImageFile } from "../utils/imageUtils";
+import { abortableDelay } from "../utils/abortUtils";
+import { AiError, CancelledError, InvalidInputError, classifyAiError, isCancelledError, isRetryableAiError, throwIfCancelled } from "./aiErrors";
+import { registerProvider, getActiveProvider, getActiveProviderId, ImageTask, ImageGenerationConfig, InlineImage, TokenUsage, UsageCallback } from "./aiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { offlineDemoProvider } from "./offlineDemoProvider";
+import { renderPrompt } from "./promptRegistry";
+import { StudioPreset, getAspectRatioLabel } from "./studioPresets";
+import { scheduleJob, JobPriority } from "./jobQueue";
+import { getCachedGeneration, putCachedGeneration } from "./generationCache";
+import { recordUsage, getActiveUsageProject, estimateImageCallCost } from "./usageLedger";
+import { contentHash } from "../utils/hashUtils";
+import { compositeThroughMask } from "../utils/maskUtils";
+
+registerProvider(geminiProvider);
+registerProvider(offlineDemoProvider);
+
+// An image plus the prompt template revision that produced it
+export interface GeneratedImage {
+    base64Data: string;
+    promptTemplate: PromptTemplateRef;
+    rawBase64Data?: string; // model output before it was composited onto the original (masked edits)
+}
+
+// One finished slot of a multi-candidate edit, in completion order
+export type CandidateUpdate =
+    | { index: number; status: 'done'; image: GeneratedImage }
+    | { index: number; status: 'failed'; error: AiError };
+
+export const MIN_CANDIDATE_COUNT = 1;
+export const MAX_CANDIDATE_COUNT = 4;
+
+// How a model request is scheduled (see jobQueue)
+interface JobSettings {
+    priority?: JobPriority;
+    variant?: number; // tells intentionally repeated requests (candidates) apart from duplicates
+    template?: PromptTemplateRef; // template revision the prompt was rendered from
+    bypassCache?: boolean;
+    uncached?: boolean; // edit candidates should differ on every run: share in-flight calls only, never the cache
+    attempt?: number; // retry attempt (see withRetry), recorded in the usage ledger
+}
+
+// Per-call options for the public generation functions
+export interface GenerationOptions {
+    bypassCache?: boolean; // skip the cached result and generate a fresh one (which then replaces it)
+}
+
+export const DEFAULT_COMPOSITE_FEATHER = 8;
+
+// Masked edits are never cached (each run samples new candidates), so there is no bypassCache here
+export interface MaskedEditOptions {
+    // Paste only the masked region of the result back onto the original, feathered inward by this
+    // many pixels, so the untouched area keeps its exact pixels. null returns the raw model output.
+    compositeFeather?: number | null;
+}
 
 // Progress Callback Infrastructure
 let globalProgressCallback: ((msg: string) => void) | null = null;
@@ -16,92 +69,199 @@ const reportProgress = (msg: string) => {
     }
 };
 
-// Removed lazy initialization of AI client to ensure fresh key usage
-const getAiClient = (): GoogleGenAI => {
-    if (!process.env.API_KEY) {
-      throw new Error("API_KEY environment variable not set. Please configure it to use the AI features.");
+// Helper function to retry API calls on transient (5xx / UNAVAILABLE) and quota errors.
+// Cancelling the signal stops both the pending attempt and the backoff sleep between attempts.
+// Whatever escapes is always one of the typed errors from aiErrors.
+// The operation receives the attempt number (0 for the first try).
+const withRetry = async <T>(
+    operation: (attempt: number) => Promise<T>,
+    signal?: AbortSignal,
+    retries = 2,
+    delay = 1000,
+    attempt = 0
+): Promise<T> => {
+    try {
+        throwIfCancelled(signal);
+        return await operation(attempt);
+    } catch (error) {
+        const aiError = classifyAiError(error);
+        if (signal?.aborted && aiError.kind !== 'cancelled') {
+            throw new CancelledError(undefined, { cause: error });
+        }
+        if (retries > 0 && isRetryableAiError(aiError)) {
+            const retryMsg = `Server busy, retrying in ${delay}ms... (${retries} left)`;
+            console.warn(retryMsg);
+            reportProgress(retryMsg);
+            await abortableDelay(delay, signal).catch(e => { throw classifyAiError(e); });
+            return withRetry(operation, signal, retries - 1, delay * 2, attempt + 1); // Exponential backoff
+        }
+        throw aiError;
     }
-    // Always create a new instance to pick up any dynamic key changes from the environment/dialog
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
-// Helper to extract a JSON object or array from a string that might contain extraneous text or markdown fences.
-const extractJson = (text: string): string => {
-    // First, try to find JSON within markdown fences (```json ... ```)
-    const markdownMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    if (markdownMatch && markdownMatch[1]) {
-        return markdownMatch[1].trim();
-    }
+// Generates `count` candidates (the scheduler bounds how many run at once) and yields each as
+// soon as it settles, so a slow candidate never holds back the ones that already finished.
+// Candidates get a signal of their own that also fires when the consumer stops iterating early.
+async function* streamCandidates(
+    count: number,
+    generateOne: (index: number, signal: AbortSignal) => Promise<GeneratedImage>,
+    signal?: AbortSignal
+): AsyncGenerator<CandidateUpdate> {
+    const total = Math.min(MAX_CANDIDATE_COUNT, Math.max(MIN_CANDIDATE_COUNT, Math.round(count)));
+    const settled: CandidateUpdate[] = [];
+    let wake: (() => void) | null = null;
+
+    const push = (update: CandidateUpdate) => {
+        settled.push(update);
+        wake?.();
+        wake = null;
+    };
 
-    // If no markdown fence, find the first '{' or '[' and the last '}' or ']'
-    const firstBracket = text.indexOf('[');
-    const firstBrace = text.indexOf('{');
-    
-    let start = -1;
-    
-    if (firstBracket === -1) {
-        start = firstBrace;
-    } else if (firstBrace === -1) {
-        start = firstBracket;
-    } else {
-        start = Math.min(firstBracket, firstBrace);
-    }
-    
-    if (start === -1) {
-        // If we found neither, the response is not valid JSON.
-        // It could be a conversational refusal from the model.
-        throw new Error(`Could not find a valid JSON object or array in the response. Model returned: "${text}"`);
-    }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
 
-    const lastBracket = text.lastIndexOf(']');
-    const lastBrace = text.lastIndexOf('}');
-    
-    const end = Math.max(lastBracket, lastBrace);
+    try {
+        for (let i = 0; i < total; i++) {
+            generateOne(i, controller.signal).then(
+                image => push({ index: i, status: 'done', image }),
+                error => push({ index: i, status: 'failed', error: classifyAiError(error) })
+            );
+        }
 
-    if (end === -1 || end < start) {
-        throw new Error(`Could not find a valid JSON object or array in the response. Model returned: "${text}"`);
+        for (let received = 0; received < total; received++) {
+            if (settled.length === 0) {
+                await new Promise<void>(resolve => { wake = resolve; });
+            }
+            const update = settled.shift()!;
+            throwIfCancelled(signal);
+            if (update.status === 'failed' && update.error.kind === 'cancelled') throw update.error;
+            yield update;
+        }
+    } finally {
+        // Whatever is still running after a break, return or throw has no one left to receive it
+        signal?.removeEventListener('abort', onAbort);
+        controller.abort();
     }
+}
+
+// Runs one provider call and appends its usage ledger entry (tokens, latency, outcome)
+const trackUsage = async <T>(
+    entry: { task: string; model: string; projectId: string | null; retries: number },
+    call: (onUsage: UsageCallback) => Promise<T>
+): Promise<T> => {
+    let usage: TokenUsage | undefined;
+    const startedAt = performance.now();
+    const record = (outcome: Parameters<typeof recordUsage>[0]['outcome']) => recordUsage({
+        ...entry,
+        providerId: getActiveProviderId(),
+        usage,
+        latencyMs: Math.round(performance.now() - startedAt),
+        outcome,
+    });
+    try {
+        const result = await call(reported => { usage = reported; });
+        record('success');
+        return result;
+    } catch (error) {
+        record(classifyAiError(error).kind);
+        throw error;
+    }
+};
 
-    return text.substring(start, end + 1);
+// Estimated cost of `count` image generations on the active provider, for budget checks
+export const estimateImageGenerationCost = (count: number): number => {
+    return count * estimateImageCallCost(getActiveProvider().imageModelId);
 };
 
-// Helper function to retry API calls on transient 500/503 errors
-const withRetry = async <T>(operation: () => Promise<T>, retries = 2, delay = 1000): Promise<T> => {
-    try {
-        return await operation();
-    } catch (error: any) {
-        if (retries > 0) {
-            const errorMsg = error.message || '';
-            // Retry on Internal Error (500) or Service Unavailable (503) or Overloaded
-            if (errorMsg.includes('500') || errorMsg.includes('503') || errorMsg.includes('Internal error') || errorMsg.includes('overloaded') || errorMsg.includes('429')) {
-                const retryMsg = `Server busy, retrying in ${delay}ms... (${retries} left)`;
-                console.warn(retryMsg);
-                reportProgress(retryMsg);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                return withRetry(operation, retries - 1, delay * 2); // Exponential backoff
-            }
+// Queues one image request for the active provider on the image lane and returns the base64 image data.
+// Identical requests (same model, template, inputs, prompt, config and variant) share a single call while
+// in flight and are answered from the generation cache afterwards, unless the caller bypasses it or the
+// job is uncached.
+const runImageJob = async (
+    task: ImageTask,
+    images: InlineImage[],
+    prompt: string,
+    config: ImageGenerationConfig | undefined,
+    maskBase64: string | undefined,
+    signal: AbortSignal | undefined,
+    job: JobSettings
+): Promise<string> => {
+    const provider = getActiveProvider();
+    const ledgerEntry = { task, model: provider.imageModelId, projectId: getActiveUsageProject(), retries: job.attempt ?? 0 };
+    const contentKey = await contentHash(
+        getActiveProviderId(), provider.imageModelId, job.template ? `${job.template.id}@${job.template.version}` : '',
+        task, prompt, JSON.stringify(config || {}), maskBase64 || '', String(job.variant ?? ''),
+        ...images.map(img => img.base64Data)
+    );
+
+    if (!job.bypassCache && !job.uncached) {
+        const cached = await getCachedGeneration(contentKey);
+        throwIfCancelled(signal);
+        if (cached) {
+            recordUsage({ ...ledgerEntry, providerId: getActiveProviderId(), latencyMs: 0, outcome: 'cached' });
+            return cached;
         }
-        throw error;
     }
+
+    // A bypassing call must not join an in-flight request that the cache would have answered
+    const dedupeKey = job.bypassCache ? `${contentKey}:fresh` : contentKey;
+    const result = await scheduleJob({ lane: 'image', priority: job.priority, label: task, dedupeKey }, jobSignal =>
+        trackUsage(ledgerEntry, onUsage => maskBase64
+            ? provider.editImageWithMask({ task, images, prompt, config, maskBase64, signal: jobSignal, onUsage })
+            : provider.editImage({ task, images, prompt, config, signal: jobSignal, onUsage })),
+        signal
+    );
+    if (!job.uncached) await putCachedGeneration(contentKey, result.base64Data);
+    return result.base64Data;
+};
+
+// Queues a segmentation or planning request on the vision lane
+const runVisionJob = <T>(
+    label: string,
+    run: (signal: AbortSignal, onUsage: UsageCallback) => Promise<T>,
+    signal: AbortSignal | undefined,
+    job: JobSettings & { dedupeKey?: string }
+): Promise<T> => {
+    const ledgerEntry = { task: label, model: getActiveProvider().visionModelId, projectId: getActiveUsageProject(), retries: job.attempt ?? 0 };
+    return scheduleJob(
+        { lane: 'vision', priority: job.priority, label, dedupeKey: job.dedupeKey },
+        jobSignal => trackUsage(ledgerEntry, onUsage => run(jobSignal, onUsage)),
+        signal
+    );
+};
+
+// Runs a single image generation on the active provider and returns the base64 image data.
+const generateImage = async (
+    task: ImageTask,
+    images: InlineImage[],
+    prompt: string,
+    config?: ImageGenerationConfig,
+    signal?: AbortSignal,
+    job: JobSettings = {}
+): Promise<string> => {
+    return runImageJob(task, images, prompt, config, undefined, signal, job);
 };
 
 // This is an internal helper function, not exported.
 const editImageInternal = async (
+  task: ImageTask,
   images: { base64Data: string, mimeType: string }[],
   prompt: string,
-  maskBase64?: string
+  maskBase64?: string,
+  signal?: AbortSignal,
+  job: JobSettings = {}
 ): Promise<string> => {
-  return withRetry(async () => {
+  return withRetry(async (attempt) => {
       try {
         // Validate the prompt to prevent API errors from empty/invalid text parts.
         if (!prompt || typeof prompt !== 'string' || prompt.trim() === '') {
-          throw new Error("A valid, non-empty prompt is required for image editing.");
+          throw new InvalidInputError("A valid, non-empty prompt is required for image editing.");
         }
         if (!images || images.length === 0) {
-            throw new Error("At least one image is required for editing.");
+            throw new InvalidInputError("At least one image is required for editing.");
         }
-          
-        const client = getAiClient();
 
         // OPTIMIZATION: Resize input images to 1024px (down from 1280px) to speed up processing
         reportProgress('Optimizing images...');
@@ -110,209 +270,95 @@ const editImageInternal = async (
             return { ...img, base64Data: resized };
         }));
 
-        const imageParts = optimizedImages.map(img => ({ inlineData: { data: img.base64Data, mimeType: img.mimeType } }));
-
-        // Order matters for inpainting: [Image, Mask, Prompt] is generally more robust
-        const parts: any[] = [...imageParts];
-        
-        if (maskBase64) {
-          parts.push({
-            inlineData: { data: maskBase64, mimeType: 'image/png' }
-          });
-        }
-        
-        parts.push({ text: prompt });
-
-        // Using the requested Pro model. Requires valid paid API key.
-        reportProgress('Sending request to Gemini AI...');
-        const response = await client.models.generateContent({
-          model: 'gemini-3-pro-image-preview', 
-          contents: { parts },
-          config: {
-            // responseModalities is generally not required for this model
-          },
-        });
+        reportProgress('Sending request to AI...');
+        const result = await runImageJob(task, optimizedImages, prompt, undefined, maskBase64, signal, { ...job, attempt });
 
         reportProgress('Processing AI response...');
-        if (!response.candidates || response.candidates.length === 0) {
-          if (response.promptFeedback?.blockReason) {
-            throw new Error(`Image generation was blocked. Reason: ${response.promptFeedback.blockReason}`);
-          }
-          throw new Error('The API did not return any candidates. The request may have been blocked or failed.');
-        }
-        
-        const candidate = response.candidates[0];
-        
-        if (!candidate.content?.parts) {
-            throw new Error('The API returned a candidate with no content parts.');
-        }
-
-        let returnedImage: string | null = null;
-        let returnedText: string | null = null;
-
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            returnedImage = part.inlineData.data;
-          } else if (part.text) {
-            returnedText = part.text;
-          }
-        }
-
-        if (returnedImage) {
-          return returnedImage;
-        }
-
-        let errorMessage = 'The API did not return an image. The response may have been blocked.';
-        if (returnedText) {
-          errorMessage = `The AI failed to generate an image and returned this message: "${returnedText}"`;
-        }
+        return result;
 
-        throw new Error(errorMessage);
-        
       } catch (error) {
-        console.error('Error calling Gemini API for image editing:', error);
-        if (error instanceof Error) {
-          throw error;
-        }
-        throw new Error('Could not edit the image.');
+        console.error('Error calling AI provider for image editing:', error);
+        throw classifyAiError(error, 'Could not edit the image.');
       }
-  });
+  }, signal);
 };
 
+// The first file is the hero photo the studio shot is built around (image_1 in the prompt); the rest are other angles
 export const generateFrontViewFromUploads = async (
-    files: File[]
-): Promise<string> => {
-    return withRetry(async () => {
-        const client = getAiClient();
-        
+    files: File[],
+    preset: StudioPreset,
+    options: GenerationOptions = {},
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
+    return withRetry(async (attempt) => {
         reportProgress('Preparing images...');
         // Convert files to inline data AND RESIZE them to 1024px
-        const imageParts = await Promise.all(files.map(async (file) => {
+        const images = await Promise.all(files.map(async (file) => {
             const resizedBase64 = await resizeImageFile(file, 1024);
             return {
-                inlineData: {
-                    data: resizedBase64,
-                    mimeType: 'image/png' // resized output is always PNG in our util
-                }
+                base64Data: resizedBase64,
+                mimeType: 'image/png' // resized output is always PNG in our util
             };
         }));
 
-        // USER PROVIDED SPECIFIC PROMPT
-        const prompt = `
-OBJECTIVE: Create a photorealistic interior photo of the attached furniture (Hero Product from image_1.png), focusing on preserving its exact materials and colors in a clean environment.
-USER-DEFINED VARIABLES:
-INTERIOR_STYLE (깔끔한 창고/갤러리 스타일):
-[The furniture is centrally placed in a spacious, minimalist industrial loft or gallery space. The background is a smooth, matte light greige (grey+beige mix) architectural wall, free of imperfections. It sits on a polished, light-toned concrete floor with a very low satin sheen (not glossy). The environment is completely empty, airy, and meticulously clean, serving only as a neutral backdrop.]
-CAMERA_VIEW: [Front view]IMAGE_RATIO: [Square 1:1]
-Placement & composition:
-Use a realistic ~50-85mm lens perspective (natural eye view).
-Place the HERO centrally.
-The absolute sharpest point of focus must be the center of the furniture.The main priority is maintaining the integrity of the wood grain texture and the galvanized metal pipe finish seen in the original image.
-Styling & Props:
-The scene must be completely empty except for the main furniture piece. Absolutely no other objects.
-Lighting & compositing (텍스처 보존을 위한 핵심 조명 설정):
-[The scene is illuminated by soft, diffused, large-source neutral architectural lighting (simulating light from large North-facing windows or huge softboxes).Crucial: The lighting must not be overly bright or harsh. It should be gentle enough to define the tactile textures of the wood grain and metal pipes without washing out their colors or creating harsh specular highlights.
-Shadows beneath the legs should be soft and grounded, not sharp black. The overall color balance is perfectly neutral.]
-Hygiene:
-Avoid HDR, oversharpening, or any effect that alters the original material appearance. No blown-out highlights on the wood surface.
-        `;
-
-        reportProgress('Generating studio view...');
-        const response = await client.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: {
-                parts: [...imageParts, { text: prompt }]
-            },
-            config: {
-                imageConfig: {
-                    aspectRatio: "1:1" // FORCE SQUARE RATIO
-                }
-            }
+        const prompt = renderPrompt('studio-shot', {
+            INTERIOR_STYLE_NAME: preset.styleName,
+            BACKGROUND: preset.background,
+            FLOOR: preset.floor,
+            LIGHTING: preset.lighting,
+            CAMERA_VIEW: preset.cameraView,
+            IMAGE_RATIO: getAspectRatioLabel(preset.aspectRatio),
         });
 
-        const candidate = response.candidates?.[0];
-        const part = candidate?.content?.parts?.find(p => p.inlineData);
-        
-        if (!part || !part.inlineData || !part.inlineData.data) {
-            throw new Error("Failed to generate front view.");
-        }
-
-        return part.inlineData.data;
-    });
+        reportProgress('Generating studio view...');
+        const base64Data = await generateImage('studio-shot', images, prompt.text, {
+            aspectRatio: preset.aspectRatio
+        }, signal, { priority: 'interactive', template: prompt.template, bypassCache: options.bypassCache, attempt });
+        return { base64Data, promptTemplate: prompt.template };
+    }, signal);
 };
 
 export const generateIsometricViews = async (
-    frontViewBase64: string
+    frontViewBase64: string,
+    signal?: AbortSignal
 ): Promise<{ left: string, right: string }> => {
-    return withRetry(async () => {
-        const client = getAiClient();
-        
+    return withRetry(async (attempt) => {
         reportProgress('Resizing input...');
         // Ensure input is resized to 1024px
         const resizedFront = await resizeBase64(frontViewBase64, 1024);
         
-        const inlineData = {
-            data: resizedFront,
+        const images = [{
+            base64Data: resizedFront,
             mimeType: 'image/png'
-        };
+        }];
 
-        const leftPrompt = `Based on this FRONT VIEW image, generate a LEFT ISOMETRIC VIEW. Maintain exact materials, lighting, and warehouse concrete environment.`;
-        const rightPrompt = `Based on this FRONT VIEW image, generate a RIGHT ISOMETRIC VIEW. Maintain exact materials, lighting, and warehouse concrete environment.`;
+        const leftPrompt = renderPrompt('isometric-side', { SIDE: 'LEFT' });
+        const rightPrompt = renderPrompt('isometric-side', { SIDE: 'RIGHT' });
 
         reportProgress('Generating side views...');
-        const [leftResp, rightResp] = await Promise.all([
-            client.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { parts: [{ inlineData }, { text: leftPrompt }] }
-            }),
-            client.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { parts: [{ inlineData }, { text: rightPrompt }] }
-            })
+        const [leftImg, rightImg] = await Promise.all([
+            generateImage('isometric-side', images, leftPrompt.text, undefined, signal, { priority: 'normal', template: leftPrompt.template, attempt }),
+            generateImage('isometric-side', images, rightPrompt.text, undefined, signal, { priority: 'normal', template: rightPrompt.template, attempt })
         ]);
 
-        const getImg = (resp: any) => resp.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData)?.inlineData?.data;
-
-        const leftImg = getImg(leftResp);
-        const rightImg = getImg(rightResp);
-
-        if (!leftImg || !rightImg) throw new Error("Failed to generate side views.");
-
         return { left: leftImg, right: rightImg };
-    });
+    }, signal);
 };
 
 // Converts the photorealistic image into a technical blueprint/line-drawing style
 export const generateBlueprintStyle = async (
-    imageBase64: string
+    imageBase64: string,
+    signal?: AbortSignal
 ): Promise<string> => {
-    return withRetry(async () => {
-        const client = getAiClient();
+    return withRetry(async (attempt) => {
         const resized = await resizeBase64(imageBase64, 1024);
-        const inlineData = { data: resized, mimeType: 'image/png' };
+        const images = [{ base64Data: resized, mimeType: 'image/png' }];
 
-        const prompt = `
-        Convert this furniture image into a technical architectural BLUEPRINT / LINE DRAWING.
-        
-        Style:
-        - White background, Black lines (Technical Illustration style).
-        - Clean, thin, precise lines.
-        - Remove all shadows, textures, and lighting effects.
-        - Focus purely on the geometry and dimensions.
-        - High contrast, clear edges.
-        - Do NOT add dimensions or text yet. Just the clean line art of the object.
-        `;
+        const prompt = renderPrompt('blueprint-style');
 
         reportProgress('Generating blueprint style...');
-        const response = await client.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: { parts: [{ inlineData }, { text: prompt }] }
-        });
-        
-        const img = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-        if (!img) throw new Error("Failed to generate blueprint style.");
-        return img;
-    });
+        return generateImage('blueprint-style', images, prompt.text, undefined, signal, { priority: 'normal', template: prompt.template, attempt });
+    }, signal);
 };
 
 /**
@@ -320,65 +366,26 @@ export const generateBlueprintStyle = async (
  */
 export const refineBlueprintDimensions = async (
     blueprintBase64: string,
-    dimensionsData: {x1: number, y1: number, x2: number, y2: number, text: string}[]
+    dimensionsData: {x1: number, y1: number, x2: number, y2: number, text: string}[],
+    signal?: AbortSignal
 ): Promise<string> => {
-    const client = getAiClient();
-    
     const dimensionsDescription = dimensionsData.map((dim, i) => 
         `Dimension ${i+1}: From (${dim.x1.toFixed(0)}, ${dim.y1.toFixed(0)}) to (${dim.x2.toFixed(0)}, ${dim.y2.toFixed(0)}) - Label: "${dim.text}"`
     ).join('\n');
     
-    const prompt = `
-TASK: Redraw this blueprint with PROFESSIONAL CAD-STYLE dimension annotations.
-
-USER DIMENSION MARKINGS:
-${dimensionsDescription}
-
-REQUIREMENTS:
-1. **PRESERVE THE FURNITURE SKETCH STYLE** - Keep the gray/blueprint aesthetic of the furniture design
-2. **REPLACE user arrows** with clean, professional dimension lines:
-   - Thin, precise black lines (1-2px)
-   - Small arrow endpoints or tick marks
-   - Extension lines perpendicular to measured surfaces
-   - Proper spacing from the object
-3. **IMPROVE TEXT LABELS**:
-   - Clear, legible font (sans-serif, 10-12pt)
-   - Aligned parallel to dimension lines
-   - Positioned above the line with proper clearance
-4. **FOLLOW CAD STANDARDS**:
-   - Dimension lines should NOT touch the object
-   - Use extension lines that extend beyond dimension lines
-   - Maintain consistent arrow/tick style
-   - Professional spacing and alignment
-
-OUTPUT: A refined blueprint image with CAD-quality dimension annotations while maintaining the original furniture sketch style.
-`;
+    const prompt = renderPrompt('blueprint-dimensions', { DIMENSIONS: dimensionsDescription });
 
     try {
-        const response = await withRetry(async () => {
+        const refinedImage = await withRetry(async (attempt) => {
             reportProgress('Refining blueprint dimensions...');
-            return await client.models.generateContent({
-                model: 'gemini-3-pro-image-preview', // 이미지 생성 가능한 모델
-                contents: {
-                    parts: [
-                        { inlineData: { data: blueprintBase64, mimeType: 'image/png' } },
-                        { text: prompt }
-                    ]
-                },
-                config: {}
-            });
-        }, 3, 2000);
-
-        const refinedImage = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-        if (!refinedImage) {
-            throw new Error("AI failed to refine blueprint dimensions.");
-        }
+            return await generateImage('blueprint-dimensions', [{ base64Data: blueprintBase64, mimeType: 'image/png' }], prompt.text, undefined, signal, { priority: 'interactive', template: prompt.template, attempt });
+        }, signal, 3, 2000);
 
         console.log("✅ Blueprint dimensions refined successfully");
         return refinedImage;
     } catch (error) {
-        console.error("❌ Blueprint refinement failed:", error);
-        throw new Error("Failed to refine dimensions. Please try again.");
+        if (!isCancelledError(error)) console.error("❌ Blueprint refinement failed:", error);
+        throw classifyAiError(error, "Failed to refine dimensions. Please try again.");
     }
 };
 
@@ -386,62 +393,40 @@ OUTPUT: A refined blueprint image with CAD-quality dimension annotations while m
 const generateSingleSketchEdit = async (
     imageBase64: string,
     sketchBase64: string,
-    prompt: string
-): Promise<string> => {
-    return withRetry(async () => {
-        const client = getAiClient();
-        
+    prompt: string,
+    signal?: AbortSignal,
+    job: JobSettings = {}
+): Promise<GeneratedImage> => {
+    return withRetry(async (attempt) => {
         reportProgress('Optimizing sketch inputs...');
         const resizedBase = await resizeBase64(imageBase64, 1024);
         const resizedSketch = await resizeBase64(sketchBase64, 1024);
 
-        const promptText = `
-        You are an expert 3D Product Designer and Visualizer.
-
-        **INPUTS:**
-        1. **Source Image:** The original photo of the furniture.
-        2. **Sketch Overlay:** A transparent layer with colored lines/shapes indicating the Desired Changes.
-        3. **Instruction:** "${prompt}"
-
-        **TASK:**
-        Transform the Source Image by applying the changes indicated by the Sketch and Instruction.
+        const promptText = renderPrompt('sketch-edit', { INSTRUCTION: prompt });
 
-        **CRITICAL EXECUTION RULES:**
-        1. **INTERPRET THE SKETCH, DO NOT PRINT IT:** The sketch lines (red/blue boxes, lines, etc.) are strictly *spatial guides*. **DO NOT** render these colored lines in the final output.
-        2. **PHOTOREALISM:** The area defined by the sketch must be rendered as **real 3D geometry** with materials (wood, metal, glass) that perfectly match the original object.
-        3. **SEAMLESS INTEGRATION:** The new parts must look like they were always there. Match lighting, shadows, and perspective of the concrete warehouse.
-        4. **EXAMPLE:** If the sketch shows a red box on the side, you must generate a *wooden cabinet* (or whatever matches the furniture) in that exact shape/position, NOT a red box.
-        `;
-
-        const parts = [
-            { inlineData: { data: resizedBase, mimeType: 'image/png' } }, // Source
-            { inlineData: { data: resizedSketch, mimeType: 'image/png' } }, // Sketch
-            { text: promptText }
+        const images = [
+            { base64Data: resizedBase, mimeType: 'image/png' }, // Source
+            { base64Data: resizedSketch, mimeType: 'image/png' }, // Sketch
         ];
 
         reportProgress('Generating sketch edit...');
-        const response = await client.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: { parts },
-        });
-
-        const img = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-        if (!img) throw new Error("Failed to generate sketch edit.");
-        return img;
-    });
+        const base64Data = await generateImage('sketch-edit', images, promptText.text, undefined, signal, { ...job, template: promptText.template, attempt });
+        return { base64Data, promptTemplate: promptText.template };
+    }, signal);
 };
 
 
-// Uses a user-drawn sketch + prompt to edit the image
-// Returns 3 variations -> UPDATED TO RETURN 1 VARIATION TO PREVENT TIMEOUT
-export const editImageWithSketch = async (
+// Uses a user-drawn sketch + prompt to edit the image, streaming `candidateCount` candidates
+export async function* editImageWithSketch(
     imageBase64: string,
     sketchBase64: string,
-    prompt: string
-): Promise<string[]> => {
+    prompt: string,
+    candidateCount = 1,
+    signal?: AbortSignal
+): AsyncGenerator<CandidateUpdate> {
     // 🔥 Validation Added
     if (!imageBase64 || !sketchBase64) {
-        throw new Error("이미지 또는 스케치 데이터가 없습니다.");
+        throw new InvalidInputError("이미지 또는 스케치 데이터가 없습니다.");
     }
     
     const cleanSketchBase64 = sketchBase64.includes(',') 
@@ -454,46 +439,76 @@ export const editImageWithSketch = async (
         promptLength: prompt.length
     });
 
-    // OPTIMIZATION: Generate only 1 variation to ensure stability and prevent timeouts
-    const result = await generateSingleSketchEdit(imageBase64, cleanSketchBase64, prompt);
-    
-    return [result];
-};
-
-
-// ... (rest of existing functions like editImageWithMask, etc.)
+    yield* streamCandidates(candidateCount, (index, candidateSignal) =>
+        generateSingleSketchEdit(imageBase64, cleanSketchBase64, prompt, candidateSignal, { priority: 'interactive', variant: index, uncached: true }), signal);
+}
 
 export const retryImageGeneration = async (
     images: { base64Data: string, mimeType: string }[],
-    prompt: string
+    prompt: string,
+    signal?: AbortSignal
 ): Promise<string> => {
-    return await editImageInternal(images, prompt);
+    return await editImageInternal('variation', images, prompt, undefined, signal, { priority: 'normal', uncached: true });
 };
 
-export const editImageWithMask = async (
+// Composites a masked edit result onto the original unless the caller asked for the raw output
+const finishMaskedEdit = async (
+    originalBase64: string,
+    resultBase64: string,
+    maskBase64: string,
+    promptTemplate: PromptTemplateRef,
+    options: MaskedEditOptions
+): Promise<GeneratedImage> => {
+    const feather = options.compositeFeather === undefined ? DEFAULT_COMPOSITE_FEATHER : options.compositeFeather;
+    if (feather === null) return { base64Data: resultBase64, promptTemplate };
+    reportProgress('Compositing result...');
+    const composited = await compositeThroughMask(originalBase64, resultBase64, maskBase64, feather);
+    return { base64Data: composited, rawBase64Data: resultBase64, promptTemplate };
+};
+
+export async function* editImageWithMask(
     imageBase64: string,
     mimeType: string,
     prompt: string,
-    maskBase64: string
-): Promise<string[]> => {
-    const maskedPrompt = `You are a professional photo editor. 
-    
-    TASK: Edit the image content found strictly within the white masked area.
-    INSTRUCTION: ${prompt}
-    CONSTRAINT: Do NOT modify the black areas of the mask. Do NOT return the original image unchanged. You MUST apply the requested edit visibly.`;
+    maskBase64: string,
+    candidateCount = 1,
+    options: MaskedEditOptions = {},
+    signal?: AbortSignal
+): AsyncGenerator<CandidateUpdate> {
+    const maskedPrompt = renderPrompt('masked-edit', { INSTRUCTION: prompt });
     
     const imageInput = [{ base64Data: imageBase64, mimeType: mimeType }];
     
-    // OPTIMIZATION: Generate only 1 variation to prevent timeouts
-    const result = await editImageInternal(imageInput, maskedPrompt, maskBase64);
-    
-    return [result];
+    yield* streamCandidates(candidateCount, async (index, candidateSignal) => {
+        const result = await editImageInternal('masked-edit', imageInput, maskedPrompt.text, maskBase64, candidateSignal, { priority: 'interactive', variant: index, template: maskedPrompt.template, uncached: true });
+        return finishMaskedEdit(imageBase64, result, maskBase64, maskedPrompt.template, options);
+    }, signal);
+}
+
+// Rotation and mirroring for the reposition instruction; empty when the orientation is unchanged
+const describeOrientationChange = (label: string, transform?: ObjectTransform): string => {
+    if (!transform) return '';
+    const parts: string[] = [];
+    const degrees = Math.round(transform.rotation);
+    if (degrees !== 0) {
+        const direction = degrees > 0 ? 'clockwise' : 'counter-clockwise';
+        parts.push(`ROTATE the '${label}' ${Math.abs(degrees)}° ${direction} (as seen in the image) in its new position. Re-draw it turned by that angle with correct perspective, contact with the floor and shadows; do not just rotate its pixels.`);
+    }
+    if (transform.flipHorizontal) {
+        parts.push(`MIRROR the '${label}' left-to-right: features on its left side must end up on its right side.`);
+    }
+    if (transform.flipVertical) {
+        parts.push(`FLIP the '${label}' upside down.`);
+    }
+    return parts.length > 0 ? ` ${parts.join(' ')}` : '';
 };
 
 export const generateRepositionPrompt = async (
-    visualInstructionImageBase64: string,
-    movedObjects: { label: string; originalBox: BoundingBox; newBox: BoundingBox }[]
+    movedObjects: { label: string; originalBox: BoundingBox; newBox: BoundingBox; transform?: ObjectTransform }[],
+    arrangementNotes: string[] = [], // group layout the user applied (aligned, evenly spaced...), one line each
+    signal?: AbortSignal
 ): Promise<string> => {
+    throwIfCancelled(signal);
     try {
         reportProgress('Analyzing spatial changes...');
         // Perform detailed mathematical analysis of the movement
@@ -561,9 +576,12 @@ export const generateRepositionPrompt = async (
                 }
             }
 
-            return `Object '${obj.label}': ${direction}, and ${scaling}. ${structureInstruction}`;
+            return `Object '${obj.label}': ${direction}, and ${scaling}. ${structureInstruction}${describeOrientationChange(obj.label, obj.transform)}`;
         }).join('\n');
 
+        if (arrangementNotes.length > 0) {
+            return `${calculatedFacts}\nGROUP ARRANGEMENT (keep exactly):\n${arrangementNotes.map(note => `- ${note}`).join('\n')}`;
+        }
         return calculatedFacts;
 
     } catch (error) {
@@ -573,212 +591,125 @@ export const generateRepositionPrompt = async (
     }
 };
 
-export const applyRepositionEdit = async (
+// `guideImageBase64` is the photo with the moves drawn on it (see drawMovementInstructions); it is sent
+// as a second image so rotations and mirroring reach the model visually, not just as text
+export async function* applyRepositionEdit(
     imageBase64: string,
     maskBase64: string,
     mimeType: string,
-    generatedPrompt: string
-): Promise<string[]> => {
-    const finalPrompt = `You are an expert architectural and product visualizer using Inpainting.
-
-    **TASK:** Re-generate the object in the new masked area.
-    
-    **SCENE CONTEXT:** The object is placed on the floor/ground in a room. It must cast correct shadows and match the perspective of the concrete wall/floor.
-
-    **INSTRUCTION:**
-    ${generatedPrompt}
-
-    **EXECUTION RULES:**
-    1. **INPAINTING:** The white mask represents the "New Reality". Completely redraw the object inside this area based on the instruction.
-    2. **BACKGROUND:** If the mask covers the old position, fill that part with the background (concrete wall/floor) seamlessly.
-    3. **STRUCTURE:** If the instruction says "WIDER", you must DESIGN a wider version of the object (e.g. a longer desk surface with legs at the far ends), do not distort it.
-    4. **FIDELITY:** Maintain the exact style, material, and configuration of the original object. If the original has drawers on the right, KEEP them on the right. Do not mirror features.
-    5. **REALISM:** High quality, photorealistic, 4k. Match lighting and shadows.`;
+    generatedPrompt: string,
+    guideImageBase64: string | null,
+    candidateCount = 1,
+    options: MaskedEditOptions = {},
+    signal?: AbortSignal
+): AsyncGenerator<CandidateUpdate> {
+    // Version 1 of the template predates the guide image
+    const finalPrompt = renderPrompt('reposition', { INSTRUCTION: generatedPrompt }, guideImageBase64 ? undefined : 1);
 
     const imageInput = [{ base64Data: imageBase64, mimeType: mimeType }];
+    if (guideImageBase64) imageInput.push({ base64Data: guideImageBase64, mimeType: 'image/png' });
     
-    // OPTIMIZATION: Generate 1 variation
-    const result = await editImageInternal(imageInput, finalPrompt, maskBase64);
-    return [result];
-};
+    yield* streamCandidates(candidateCount, async (index, candidateSignal) => {
+        const result = await editImageInternal('reposition', imageInput, finalPrompt.text, maskBase64, candidateSignal, { priority: 'interactive', variant: index, template: finalPrompt.template, uncached: true });
+        return finishMaskedEdit(imageBase64, result, maskBase64, finalPrompt.template, options);
+    }, signal);
+}
 
-// ... (segmentObjectsInImage remains unchanged)
+// Detects the object tree with a box and a model mask per object (masks are refined client-side when missing)
 export const segmentObjectsInImage = async (
   imageBase64: string,
   mimeType: string,
+  signal?: AbortSignal
 ): Promise<ApiObject[]> => {
-  console.log("Starting object segmentation with JSON schema enforcement (no masks)...");
+  console.log("Starting object segmentation with JSON schema enforcement (boxes + masks)...");
   try {
-    const client = getAiClient();
     reportProgress('Detecting objects...');
     // No need to resize here for flash model usually, but we could if detection fails.
     // Keeping it raw for now as flash is robust.
-    
-    const objectSegmentationSchema = {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            parentId: { type: Type.STRING },
-            label: { type: Type.STRING },
-            box_2d: {
-              type: Type.ARRAY,
-              items: { type: Type.NUMBER },
-              minItems: 4,
-              maxItems: 4,
-            },
-          },
-          required: ["id", "parentId", "label", "box_2d"]
-        }
-      };
-
-    const response = await client.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-            parts: [
-                { inlineData: { data: imageBase64, mimeType: mimeType } },
-                { text: `Analyze the image and detect all distinct objects. Your task is to organize these objects into a hierarchical scene graph, like layers in an image editor.
-
-**CRITICAL BOUNDING BOX RULES:**
-1. **PARENT OBJECTS MUST FULLY ENCLOSE ALL CHILDREN**: If 'table' has children like 'table top' and 'leg structure', the 'table' bounding box MUST be large enough to contain ALL of them.
-2. Bounding boxes must be **EXTREMELY TIGHT** to the visible pixels of the object.
-3. **EXCLUDE** cast shadows on the floor.
-4. **EXCLUDE** floor reflections.
-5. For hierarchical objects (e.g., furniture):
-   - Parent object (e.g., "table"): Draw ONE box around the ENTIRE assembled object including ALL visible parts
-   - Child objects (e.g., "table top", "legs"): Draw tight boxes around each individual component
-
-**HIERARCHY RULES:**
-- Top-level objects should represent complete, assembled items (e.g., "table", "chair", "cabinet")
-- Sub-parts should be children (e.g., "table top", "table legs" are children of "table")
-- parentId should be the id of the containing object, or null for top-level objects
-
-**OUTPUT FORMAT:**
-For each object, provide:
-- unique 'id'
-- descriptive 'label'
-- 'parentId' (id of parent object, or null for top-level)
-- normalized 2D 'box_2d' [yMin, xMin, yMax, xMax] in 0-1000 range
-
-EXAMPLE for a table with top and legs:
-[
-  { "id": "obj1", "parentId": null, "label": "table", "box_2d": [200, 100, 700, 900] },
-  { "id": "obj2", "parentId": "obj1", "label": "table top", "box_2d": [200, 100, 350, 900] },
-  { "id": "obj3", "parentId": "obj1", "label": "leg structure", "box_2d": [350, 150, 700, 850] }
-]
-Note how 'table' (parent) box fully contains both children's boxes.` }
-            ]
-        },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: objectSegmentationSchema,
-            thinkingConfig: { thinkingBudget: 0 }
-        }
-    });
 
-    console.log("Raw JSON response from Gemini for segmentation:", response.text);
+    const prompt = renderPrompt('object-segmentation').text;
 
-    // FIX: Use extractJson instead of JSON.parse directly to handle potential markdown wrapping
-    const jsonString = extractJson(response.text);
-    const detectedObjects = JSON.parse(jsonString);
-    
-    if (!Array.isArray(detectedObjects)) {
-        throw new Error("API returned an invalid format for object segmentation.");
-    }
+    const provider = getActiveProvider();
+    const dedupeKey = await contentHash(getActiveProviderId(), 'segmentation', prompt, imageBase64);
+    const detectedObjects = await runVisionJob('segmentation', (jobSignal, onUsage) => provider.segmentObjects({
+        image: { base64Data: imageBase64, mimeType },
+        prompt,
+        signal: jobSignal,
+        onUsage,
+    }), signal, { priority: 'interactive', dedupeKey });
     
     return detectedObjects.map((obj:any) => ({
         ...obj,
         parentId: obj.parentId || null,
     }));
 
-  } catch (error: any) {
+  } catch (error) {
+    const aiError = classifyAiError(error);
+    if (aiError.kind === 'cancelled') throw aiError;
     console.error("Detailed error during object segmentation:", error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-        throw new Error("API usage limit reached (Quota Exceeded). Please wait a moment and try again.");
+    if (aiError.kind === 'unknown') {
+        throw new AiError(`Could not detect objects in the image. ${aiError.message}`, { cause: error });
     }
-    
-    throw new Error(`Could not detect objects in the image. ${errorMessage}`);
+    throw aiError;
   }
 };
 
+/**
+ * Suggests a label for a region the user drew by hand. `cropBase64` is just that region;
+ * `parentLabel` gives the model context ("drawer" → "drawer handle"). Returns null if nothing usable came back.
+ */
+export const nameImageRegion = async (
+    cropBase64: string,
+    mimeType: string,
+    parentLabel?: string,
+    signal?: AbortSignal
+): Promise<string | null> => {
+    const prompt = renderPrompt('region-naming', parentLabel ? { CONTEXT: parentLabel } : {}).text;
+    const provider = getActiveProvider();
+    const dedupeKey = await contentHash(getActiveProviderId(), 'region-naming', prompt, cropBase64);
+    const objects = await runVisionJob('region-naming', (jobSignal, onUsage) => provider.segmentObjects({
+        image: { base64Data: cropBase64, mimeType },
+        prompt,
+        signal: jobSignal,
+        onUsage,
+    }), signal, { priority: 'interactive', dedupeKey });
+
+    const label = objects.find(obj => typeof obj.label === 'string' && obj.label.trim())?.label.trim();
+    return label || null;
+};
+
 /**
  * Generate 3D isometric view using Gemini's image transformation
  */
-export const generate3DIsometric = async (editedImageBase64: string): Promise<string> => {
-    const client = getAiClient();
-    
+export const generate3DIsometric = async (
+    editedImageBase64: string,
+    options: GenerationOptions = {},
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
     // OPTIMIZATION: Resize input image to 1024px to speed up processing
     reportProgress('Optimizing input for 3D generation...');
     const resizedBase64 = await resizeBase64(editedImageBase64, 1024);
 
-    const prompt = `A highly detailed photorealistic isometric 3D render of the furniture. 
-The view is an elevated corner perspective (30-degree isometric angle), showing all materials, textures, wood grain, and metal details sharply defined with professional studio lighting. 
-
-CRITICAL: The background must be PURE SOLID WHITE (Hex Code #FFFFFF). 
-- The object must appear completely isolated on a stark white background.
-- DO NOT generate any floor shadows, wall gradients, or ambient occlusion on the background.
-- The background pixels must be perfectly (255, 255, 255).
-- Product catalog style, die-cut look.
-High-resolution output suitable for technical documentation.`;
+    const prompt = renderPrompt('isometric-3d');
 
     try {
         console.log("🔄 Generating isometric view...");
         
-        const response = await withRetry(async () => {
+        const isoImage = await withRetry(async (attempt) => {
             reportProgress('Generating 3D Isometric view...');
-            return await client.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: {
-                    parts: [
-                        { inlineData: { data: resizedBase64, mimeType: 'image/png' } },
-                        { text: prompt }
-                    ]
-                },
-                config: {
-                    temperature: 0.4,
-                    topP: 0.85,
-                    topK: 40
-                }
-            });
-        }, 3, 3000);
+            return await generateImage('isometric-3d', [{ base64Data: resizedBase64, mimeType: 'image/png' }], prompt.text, {
+                temperature: 0.4,
+                topP: 0.85,
+                topK: 40
+            }, signal, { priority: 'interactive', template: prompt.template, bypassCache: options.bypassCache, attempt });
+        }, signal, 3, 3000);
 
-        console.log("📊 API Response received");
-
-        // Extract image from response
-        const candidate = response.candidates?.[0];
-        if (!candidate) {
-            throw new Error("No response candidate");
-        }
-
-        const parts = candidate.content?.parts;
-        if (!parts || parts.length === 0) {
-            throw new Error("No content parts in response");
-        }
-
-        // Find image data
-        const imagePart = parts.find(p => p.inlineData?.mimeType?.startsWith('image'));
-        if (!imagePart?.inlineData?.data) {
-            // Check if there's explanatory text
-            const textPart = parts.find(p => p.text);
-            const errorText = textPart?.text || "Unknown error";
-            console.error("❌ Response:", errorText);
-            throw new Error(`Image generation failed: ${errorText}`);
-        }
-
-        const isoImage = imagePart.inlineData.data;
         console.log("✅ Isometric view generated successfully");
-        return isoImage;
+        return { base64Data: isoImage, promptTemplate: prompt.template };
 
     } catch (error) {
-        console.error("❌ Isometric generation error:", error);
-        
-        if (error instanceof Error) {
-            throw new Error(`3D 변환 실패: ${error.message}`);
-        }
-        throw new Error("3D 변환에 실패했습니다. 다시 시도해주세요.");
+        if (!isCancelledError(error)) console.error("❌ Isometric generation error:", error);
+        throw classifyAiError(error, "3D 변환에 실패했습니다. 다시 시도해주세요.");
     }
 };
 
@@ -786,96 +717,48 @@ High-resolution output suitable for technical documentation.`;
  * Generate front and side orthographic views sequentially to ensure different angles
  */
 export const generateOrthographicViews = async (
-    editedImageBase64: string
+    editedImageBase64: string,
+    options: GenerationOptions = {},
+    signal?: AbortSignal
 ): Promise<{front: string, side: string}> => {
-    const client = getAiClient();
-    
     // OPTIMIZATION: Resize input image to 1024px to speed up processing
     reportProgress('Optimizing input for orthographic views...');
     const resizedBase64 = await resizeBase64(editedImageBase64, 1024);
 
     // Step 1: Generate FRONT view first
-    const frontPrompt = `Create a precise FRONT ORTHOGRAPHIC technical line drawing of this furniture. 
-
-CRITICAL REQUIREMENTS:
-- View the furniture DIRECTLY from the FRONT (facing the main surface)
-- Pure orthographic projection with no perspective distortion
-- Black lines on pure white background
-- Show all construction details and edges
-- Engineering blueprint style with NO text, dimensions, or labels
-- Clean professional linework
-
-OUTPUT: Front-facing orthographic view.`;
+    const frontPrompt = renderPrompt('orthographic-front');
 
     try {
         console.log("🔄 Step 1: Generating FRONT view...");
 
-        const frontResp = await withRetry<GenerateContentResponse>(() => {
+        const frontImage = await withRetry(attempt => {
             reportProgress('Generating orthographic FRONT view...');
-            return client.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { 
-                    parts: [
-                        { inlineData: { data: resizedBase64, mimeType: 'image/png' } },
-                        { text: frontPrompt }
-                    ]
-                },
-                config: { temperature: 0.3, topP: 0.8 }
-            });
-        }, 3, 3000);
-
-        const frontImage = frontResp.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.mimeType?.startsWith('image'))?.inlineData?.data;
-        
-        if (!frontImage) {
-            throw new Error("Failed to generate front view");
-        }
+            return generateImage('orthographic-front', [{ base64Data: resizedBase64, mimeType: 'image/png' }], frontPrompt.text, { temperature: 0.3, topP: 0.8 }, signal,
+                { priority: 'background', template: frontPrompt.template, bypassCache: options.bypassCache, attempt });
+        }, signal, 3, 3000);
         
         console.log("✅ Front view generated");
 
         // Step 2: Generate SIDE view (with explicit difference instruction)
-        const sidePrompt = `Create a precise SIDE ORTHOGRAPHIC technical line drawing of this furniture.
-
-CRITICAL REQUIREMENTS:
-- View the furniture from the RIGHT SIDE (90-degree angle from the front view)
-- MUST show a DIFFERENT angle than the front view
-- Pure orthographic projection with no perspective distortion
-- Black lines on pure white background
-- Show all construction details and edges from the side perspective
-- Engineering blueprint style with NO text, dimensions, or labels
-- Clean professional linework
-
-IMPORTANT: This view must show the furniture's DEPTH and PROFILE, not the same angle as the front view.
-
-OUTPUT: Side-facing orthographic view showing depth.`;
+        const sidePrompt = renderPrompt('orthographic-side');
 
         console.log("🔄 Step 2: Generating SIDE view...");
 
-        const sideResp = await withRetry<GenerateContentResponse>(() => {
+        const sideImage = await withRetry(attempt => {
             reportProgress('Generating orthographic SIDE view...');
-            return client.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { 
-                    parts: [
-                        { inlineData: { data: resizedBase64, mimeType: 'image/png' } },
-                        { text: sidePrompt }
-                    ]
-                },
-                config: { temperature: 0.4, topP: 0.85 } // Slightly higher randomness for variety
-            });
-        }, 3, 3000);
-
-        const sideImage = sideResp.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.mimeType?.startsWith('image'))?.inlineData?.data;
-
-        if (!sideImage) {
-            throw new Error("Failed to generate side view");
-        }
+            return generateImage('orthographic-side', [{ base64Data: resizedBase64, mimeType: 'image/png' }], sidePrompt.text,
+                { temperature: 0.4, topP: 0.85 }, // Slightly higher randomness for variety
+                signal,
+                { priority: 'background', template: sidePrompt.template, bypassCache: options.bypassCache, attempt }
+            );
+        }, signal, 3, 3000);
 
         console.log("✅ Side view generated (different angle)");
         return { front: frontImage, side: sideImage };
 
     } catch (error) {
-        console.error("❌ Orthographic generation error:", error);
-        throw new Error("평면도 생성 실패. 다시 시도해주세요.");
+        if (!isCancelledError(error)) console.error("❌ Orthographic generation error:", error);
+        throw classifyAiError(error, "평면도 생성 실패. 다시 시도해주세요.");
     }
 };
 
@@ -885,44 +768,22 @@ OUTPUT: Side-facing orthographic view showing depth.`;
 export async function* generateImageEdits(
     images: { base64Data: string, mimeType: string }[],
     userPrompt: string,
-    useWebSearch: boolean
+    useWebSearch: boolean,
+    signal?: AbortSignal
 ): AsyncGenerator<
     | { status: 'progress'; message: string }
     | { plan: { textResponse: string; followUpSuggestions: string[] }; groundingMetadata?: any }
     | ImageVariation
 > {
-    const client = getAiClient();
-    
     yield { status: 'progress', message: 'Analyzing request...' };
 
     const planningImages = await Promise.all(images.map(async (img) => {
         const resized = await resizeBase64(img.base64Data, 512); 
-        return { inlineData: { data: resized, mimeType: 'image/png' } };
+        return { base64Data: resized, mimeType: 'image/png' };
     }));
 
-    const systemInstruction = `You are a creative design assistant.
-    The user wants to edit or generate variations of the provided image(s) based on their text prompt.
-    
-    YOUR TASKS:
-    1. Analyze the user's request and the image(s).
-    2. Create a plan with 3 distinct, creative, and detailed image generation prompts that fulfill the user's request.
-       - Vary the style, lighting, or perspective slightly if appropriate to give the user options.
-       - If the user request is specific, stick to it but maximize quality.
-    3. Generate a friendly, short text response acknowledging the request.
-    4. Suggest 3 follow-up actions/prompts the user might want to try next.
-
-    OUTPUT JSON FORMAT:
-    {
-      "textResponse": "string",
-      "imagePrompts": ["string", "string", "string"],
-      "followUpSuggestions": ["string", "string", "string"]
-    }
-    `;
-
-    const tools: any[] = [];
-    if (useWebSearch) {
-        tools.push({ googleSearch: {} });
-    }
+    const planningPrompt = renderPrompt('variation-planning', { VARIATION_COUNT: 3 });
+    const systemInstruction = planningPrompt.text;
 
     let plan: any = {
         textResponse: "Working on your variations...",
@@ -931,25 +792,20 @@ export async function* generateImageEdits(
     };
 
     try {
-        const planningResp = await client.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [...planningImages, { text: userPrompt }]
-            },
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: 'application/json',
-                tools: tools.length > 0 ? tools : undefined,
-            }
-        });
-
-        const text = planningResp.text;
-        if (text) {
-            try {
-                plan = JSON.parse(extractJson(text));
-            } catch (e) {
-                console.warn("Failed to parse planning JSON", e);
-            }
+        const provider = getActiveProvider();
+        const planningResp = await runVisionJob('planning', (jobSignal, onUsage) => provider.planEdits({
+            images: planningImages,
+            userPrompt,
+            systemInstruction,
+            useWebSearch,
+            signal: jobSignal,
+            onUsage,
+        }), signal, { priority: 'normal' });
+
+        if (planningResp.imagePrompts.length > 0) {
+            plan = planningResp;
+        } else {
+            plan = { ...plan, textResponse: planningResp.textResponse, followUpSuggestions: planningResp.followUpSuggestions };
         }
         
         yield { 
@@ -957,10 +813,11 @@ export async function* generateImageEdits(
                 textResponse: plan.textResponse, 
                 followUpSuggestions: plan.followUpSuggestions || []
             },
-            groundingMetadata: planningResp.candidates?.[0]?.groundingMetadata
+            groundingMetadata: planningResp.groundingMetadata
         };
 
     } catch (error) {
+        if (isCancelledError(error)) throw classifyAiError(error);
         console.error("Planning step failed:", error);
         yield {
             plan: {
@@ -975,20 +832,28 @@ export async function* generateImageEdits(
     const prompts: string[] = Array.isArray(plan.imagePrompts) ? plan.imagePrompts : [userPrompt, userPrompt, userPrompt];
     while (prompts.length < 3) prompts.push(userPrompt);
     
-    // MODIFIED: SEQUENTIAL GENERATION TO PREVENT TIMEOUTS
-    // Instead of launching all promises at once, we await them one by one.
+    // All three are queued at once; the scheduler's image lane limit keeps them from timing out.
+    // Results are still yielded in order. Variations are creative, so asking again must give new ones.
+    const pending = prompts.slice(0, 3).map((prompt, i) => {
+        const result = editImageInternal('variation', images, prompt, undefined, signal, { priority: 'normal', variant: i, uncached: true });
+        result.catch(() => {}); // handled when awaited below
+        return result;
+    });
+
     for (let i = 0; i < 3; i++) {
+        throwIfCancelled(signal);
         const prompt = prompts[i];
         yield { status: 'progress', message: `Generating variation ${i + 1} of 3...` };
         
         try {
-            const imageBase64 = await editImageInternal(images, prompt);
+            const imageBase64 = await pending[i];
             const variation: ImageVariation = {
                 id: `var-${Date.now()}-${i}`,
                 title: `Variation ${i + 1}`,
                 description: prompt.length > 50 ? prompt.substring(0, 50) + '...' : prompt,
                 imageUrl: `data:image/png;base64,${imageBase64}`,
                 createdAt: new Date(),
+                promptTemplate: planningPrompt.template,
                 retryPayload: {
                     images: images,
                     prompt: prompt
@@ -996,6 +861,8 @@ export async function* generateImageEdits(
             };
             yield variation;
         } catch (err) {
+             const aiError = classifyAiError(err, "Unknown error");
+             if (aiError.kind === 'cancelled') throw aiError;
              const errorVariation: ImageVariation = {
                 id: `err-${Date.now()}-${i}`,
                 title: `Error ${i + 1}`,
@@ -1003,7 +870,9 @@ export async function* generateImageEdits(
                 imageUrl: "", 
                 createdAt: new Date(),
                 isError: true,
-                errorMessage: err instanceof Error ? err.message : "Unknown error",
+                errorMessage: aiError.message,
+                errorKind: aiError.kind,
+                promptTemplate: planningPrompt.template,
                 retryPayload: {
                     images: images,
                     prompt: prompt
@@ -0,0 +1,122 @@
+import { openDatabase, requestToPromise, transactionDone } from "../utils/idb";
+
+// Persistent, content-addressed cache of generated images. Keys are hashes of everything that
+// determines a result (see geminiService), so a hit can be returned without calling the model.
+// Entry metadata and image data live in separate stores so LRU eviction never loads image data.
+
+const DB_NAME = 'appenz-generation-cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const DATA_STORE = 'data';
+
+const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 400;
+
+interface CacheEntry {
+    key: string;
+    size: number; // bytes of base64 text
+    createdAt: number;
+    lastAccessed: number;
+}
+
+interface CacheData {
+    key: string;
+    base64Data: string;
+}
+
+export interface GenerationCacheStats {
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+            entries.createIndex('lastAccessed', 'lastAccessed');
+            db.createObjectStore(DATA_STORE, { keyPath: 'key' });
+        });
+        // Let a later call retry if opening failed (e.g. storage blocked)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Returns the cached image for the key, or null on a miss. Cache failures are treated as misses.
+ */
+export const getCachedGeneration = async (key: string): Promise<string | null> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+        const entry = await requestToPromise<CacheEntry | undefined>(tx.objectStore(ENTRY_STORE).get(key));
+        if (!entry) return null;
+        const data = await requestToPromise<CacheData | undefined>(tx.objectStore(DATA_STORE).get(key));
+        if (!data) {
+            tx.objectStore(ENTRY_STORE).delete(key);
+            return null;
+        }
+        tx.objectStore(ENTRY_STORE).put({ ...entry, lastAccessed: Date.now() });
+        await transactionDone(tx);
+        return data.base64Data;
+    } catch (error) {
+        console.warn('Generation cache read failed:', error);
+        return null;
+    }
+};
+
+// Drops least recently used entries until both limits hold again
+const evict = async (db: IDBDatabase) => {
+    const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+    const entryStore = tx.objectStore(ENTRY_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+    const entries = await requestToPromise<CacheEntry[]>(entryStore.index('lastAccessed').getAll());
+
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+    let count = entries.length;
+    for (const entry of entries) { // oldest access first
+        if (bytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+        entryStore.delete(entry.key);
+        dataStore.delete(entry.key);
+        bytes -= entry.size;
+        count--;
+    }
+    await transactionDone(tx);
+};
+
+export const putCachedGeneration = async (key: string, base64Data: string): Promise<void> => {
+    if (base64Data.length > MAX_CACHE_BYTES) return;
+    try {
+        const db = await getDb();
+        const now = Date.now();
+        const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(DATA_STORE).put({ key, base64Data } as CacheData);
+        tx.objectStore(ENTRY_STORE).put({ key, size: base64Data.length, createdAt: now, lastAccessed: now } as CacheEntry);
+        await transactionDone(tx);
+        await evict(db);
+    } catch (error) {
+        console.warn('Generation cache write failed:', error);
+    }
+};
+
+export const getGenerationCacheStats = async (): Promise<GenerationCacheStats> => {
+    const db = await getDb();
+    const tx = db.transaction(ENTRY_STORE, 'readonly');
+    const entries = await requestToPromise<CacheEntry[]>(tx.objectStore(ENTRY_STORE).getAll());
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((sum, e) => sum + e.size, 0),
+        maxBytes: MAX_CACHE_BYTES,
+    };
+};
+
+export const clearGenerationCache = async (): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(ENTRY_STORE).clear();
+    tx.objectStore(DATA_STORE).clear();
+    await transactionDone(tx);
+};
@@ -0,0 +1,219 @@
+import { CancelledError } from "./aiErrors";
+
+// Central scheduler for AI requests. Every model call runs as a job on a lane (one lane per
+// model family) that has its own concurrency limit. Queued jobs start in priority order, so
+// interactive edits overtake background work such as the orthographic views. Jobs submitted
+// with the same dedupeKey while one is still queued or running share that single request.
+
+export type JobLane = 'image' | 'vision';
+export type JobPriority = 'interactive' | 'normal' | 'background';
+
+export interface JobOptions {
+    lane: JobLane;
+    priority?: JobPriority;
+    label?: string; // shown in the queue indicator
+    dedupeKey?: string;
+}
+
+export interface JobSnapshot {
+    id: number;
+    lane: JobLane;
+    priority: JobPriority;
+    label: string;
+    state: 'queued' | 'running';
+    subscribers: number;
+}
+
+export interface LaneSnapshot {
+    lane: JobLane;
+    limit: number;
+    running: number;
+    queued: number;
+}
+
+export interface QueueSnapshot {
+    lanes: LaneSnapshot[];
+    jobs: JobSnapshot[];
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = { interactive: 0, normal: 1, background: 2 };
+
+const laneLimits: Record<JobLane, number> = {
+    image: 2,
+    vision: 2,
+};
+
+interface Job {
+    id: number;
+    lane: JobLane;
+    priority: JobPriority;
+    label: string;
+    dedupeKey?: string;
+    state: 'queued' | 'running';
+    subscribers: number;
+    controller: AbortController; // aborted once every subscriber has cancelled
+    run: (signal: AbortSignal) => Promise<unknown>;
+    promise: Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+let nextJobId = 1;
+const queued: Job[] = [];
+const running = new Set<Job>();
+const inFlightByKey = new Map<string, Job>();
+const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+export const getQueueSnapshot = (): QueueSnapshot => {
+    const toSnapshot = (job: Job): JobSnapshot => ({
+        id: job.id,
+        lane: job.lane,
+        priority: job.priority,
+        label: job.label,
+        state: job.state,
+        subscribers: job.subscribers,
+    });
+    const jobs = [...Array.from(running), ...queued].map(toSnapshot);
+    const lanes = (Object.keys(laneLimits) as JobLane[]).map(lane => ({
+        lane,
+        limit: laneLimits[lane],
+        running: jobs.filter(j => j.lane === lane && j.state === 'running').length,
+        queued: jobs.filter(j => j.lane === lane && j.state === 'queued').length,
+    }));
+    return { lanes, jobs };
+};
+
+export const subscribeToQueue = (listener: (snapshot: QueueSnapshot) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notify = () => {
+    if (listeners.size === 0) return;
+    const snapshot = getQueueSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+export const setLaneConcurrency = (lane: JobLane, limit: number) => {
+    laneLimits[lane] = Math.max(1, Math.floor(limit));
+    pump();
+    notify();
+};
+
+const finish = (job: Job) => {
+    running.delete(job);
+    if (job.dedupeKey && inFlightByKey.get(job.dedupeKey) === job) {
+        inFlightByKey.delete(job.dedupeKey);
+    }
+    pump();
+    notify();
+};
+
+// Starts queued jobs while their lane has free slots
+function pump() {
+    // Highest priority first, FIFO within a priority (ids grow monotonically)
+    queued.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.id - b.id);
+
+    for (let i = 0; i < queued.length;) {
+        const job = queued[i];
+        const laneRunning = Array.from(running).filter(j => j.lane === job.lane).length;
+        if (laneRunning >= laneLimits[job.lane]) {
+            i++;
+            continue;
+        }
+        queued.splice(i, 1);
+        job.state = 'running';
+        running.add(job);
+        Promise.resolve()
+            .then(() => job.run(job.controller.signal))
+            .then(job.resolve, job.reject)
+            .finally(() => finish(job));
+    }
+}
+
+const dropJob = (job: Job) => {
+    job.controller.abort();
+    const index = queued.indexOf(job);
+    if (index !== -1) {
+        // Never started, so nothing else will settle it
+        queued.splice(index, 1);
+        if (job.dedupeKey && inFlightByKey.get(job.dedupeKey) === job) {
+            inFlightByKey.delete(job.dedupeKey);
+        }
+        job.reject(new CancelledError());
+    }
+    notify();
+};
+
+// Gives one caller its own view of a (possibly shared) job: cancelling the caller's signal
+// rejects only that caller, and the job itself is aborted once nobody is waiting for it.
+const subscribe = <T>(job: Job, signal?: AbortSignal): Promise<T> => {
+    job.subscribers++;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            job.subscribers--;
+            reject(new CancelledError());
+            if (job.subscribers === 0) dropJob(job);
+            else notify();
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        job.promise.then(
+            value => { signal?.removeEventListener('abort', onAbort); resolve(value as T); },
+            error => { signal?.removeEventListener('abort', onAbort); reject(error); }
+        );
+    });
+};
+
+/**
+ * Queues `run` on the given lane and resolves with its result. The signal passed to `run`
+ * is owned by the scheduler; the caller's `signal` cancels only the caller's interest.
+ */
+export const scheduleJob = <T>(options: JobOptions, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (options.dedupeKey) {
+        const existing = inFlightByKey.get(options.dedupeKey);
+        if (existing && !existing.controller.signal.aborted) {
+            // A more urgent caller pulls the shared job forward
+            if (PRIORITY_RANK[options.priority || 'normal'] < PRIORITY_RANK[existing.priority]) {
+                existing.priority = options.priority || 'normal';
+                pump();
+            }
+            const shared = subscribe<T>(existing, signal);
+            notify();
+            return shared;
+        }
+    }
+
+    let resolve!: (value: unknown) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => { resolve = res; reject = rej; });
+    // Subscribers attach their own handlers; this keeps an unobserved rejection from being reported
+    promise.catch(() => {});
+
+    const job: Job = {
+        id: nextJobId++,
+        lane: options.lane,
+        priority: options.priority || 'normal',
+        label: options.label || options.lane,
+        dedupeKey: options.dedupeKey,
+        state: 'queued',
+        subscribers: 0,
+        controller: new AbortController(),
+        run,
+        promise,
+        resolve,
+        reject,
+    };
+
+    const result = subscribe<T>(job, signal);
+    if (job.subscribers === 0) return result; // caller was already cancelled
+
+    if (job.dedupeKey) inFlightByKey.set(job.dedupeKey, job);
+    queued.push(job);
+    pump();
+    notify();
+    return result;
+};
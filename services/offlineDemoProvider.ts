@@ -0,0 +1,241 @@
+import { ApiObject } from "../types";
+import { abortableDelay } from "../utils/abortUtils";
+import { AiProvider, ImageEditRequest, MaskedEditRequest, ImageResult, SegmentationRequest, PlanningRequest, EditPlan, ImageTask } from "./aiProvider";
+
+// Local provider for demos without network access. Every result is produced with canvas
+// transformations of the inputs and is deterministic for the same inputs + prompt, so the
+// whole UPLOAD → OBJECT → SKETCH → BLUEPRINT → FINAL flow can be walked through offline.
+
+const SIMULATED_LATENCY_MS = 600;
+const OUTPUT_SIZE = 1024;
+
+// Small deterministic string hash (FNV-1a) used to vary tints per prompt
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (base64Data: string, mimeType: string = 'image/png'): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = base64Data.startsWith('data:') ? base64Data : `data:${mimeType};base64,${base64Data}`;
+    });
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context");
+    return [canvas, ctx];
+};
+
+const toResult = (canvas: HTMLCanvasElement, text?: string): ImageResult => ({
+    base64Data: canvas.toDataURL('image/png').split(',')[1],
+    mimeType: 'image/png',
+    text,
+});
+
+const parseAspectRatio = (aspectRatio?: string): number => {
+    if (!aspectRatio) return 1;
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w > 0 && h > 0 ? w / h : 1;
+};
+
+// Draws the image scaled to fit (contain) inside the given rect
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+    const scale = Math.min(w / img.width, h / img.height);
+    const dw = img.width * scale;
+    const dh = img.height * scale;
+    ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+};
+
+// Grayscale + Sobel edge detection → dark lines on white, the "blueprint" look
+const renderLineDrawing = (source: HTMLCanvasElement): HTMLCanvasElement => {
+    const { width, height } = source;
+    const srcData = source.getContext('2d')!.getImageData(0, 0, width, height).data;
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+        gray[i] = 0.299 * srcData[i * 4] + 0.587 * srcData[i * 4 + 1] + 0.114 * srcData[i * 4 + 2];
+    }
+
+    const [out, outCtx] = createCanvas(width, height);
+    const outImage = outCtx.createImageData(width, height);
+    const dst = outImage.data;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            let magnitude = 0;
+            if (x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+                const gx = -gray[idx - width - 1] - 2 * gray[idx - 1] - gray[idx + width - 1]
+                         + gray[idx - width + 1] + 2 * gray[idx + 1] + gray[idx + width + 1];
+                const gy = -gray[idx - width - 1] - 2 * gray[idx - width] - gray[idx - width + 1]
+                         + gray[idx + width - 1] + 2 * gray[idx + width] + gray[idx + width + 1];
+                magnitude = Math.sqrt(gx * gx + gy * gy);
+            }
+            const value = magnitude > 80 ? 0 : 255;
+            dst[idx * 4] = value;
+            dst[idx * 4 + 1] = value;
+            dst[idx * 4 + 2] = value;
+            dst[idx * 4 + 3] = 255;
+        }
+    }
+    outCtx.putImageData(outImage, 0, 0);
+    return out;
+};
+
+const tintColorFor = (prompt: string): string => {
+    const hue = hashString(prompt) % 360;
+    return `hsla(${hue}, 70%, 50%, 0.35)`;
+};
+
+const renderTask = async (task: ImageTask, request: ImageEditRequest, maskBase64?: string): Promise<ImageResult> => {
+    const source = await loadImage(request.images[0].base64Data, request.images[0].mimeType);
+
+    switch (task) {
+        case 'studio-shot': {
+            // Hero image centred on a neutral greige backdrop with a concrete-tone floor
+            const ratio = parseAspectRatio(request.config?.aspectRatio);
+            const width = ratio >= 1 ? OUTPUT_SIZE : Math.round(OUTPUT_SIZE * ratio);
+            const height = ratio >= 1 ? Math.round(OUTPUT_SIZE / ratio) : OUTPUT_SIZE;
+            const [canvas, ctx] = createCanvas(width, height);
+            ctx.fillStyle = '#D9D4CC';
+            ctx.fillRect(0, 0, width, height);
+            ctx.fillStyle = '#BDB8B0';
+            ctx.fillRect(0, height * 0.7, width, height * 0.3);
+            drawContained(ctx, source, width * 0.1, height * 0.1, width * 0.8, height * 0.8);
+            return toResult(canvas, 'Offline demo studio shot');
+        }
+        case 'isometric-side':
+        case 'isometric-3d': {
+            // Fake an isometric angle with a shear on a white background
+            const [canvas, ctx] = createCanvas(OUTPUT_SIZE, OUTPUT_SIZE);
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+            const direction = request.prompt.includes('LEFT') ? 1 : -1;
+            ctx.setTransform(1, direction * 0.2, 0, 1, 0, -direction * OUTPUT_SIZE * 0.1);
+            drawContained(ctx, source, OUTPUT_SIZE * 0.15, OUTPUT_SIZE * 0.15, OUTPUT_SIZE * 0.7, OUTPUT_SIZE * 0.7);
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            return toResult(canvas);
+        }
+        case 'blueprint-style':
+        case 'orthographic-front':
+        case 'orthographic-side': {
+            const [canvas, ctx] = createCanvas(OUTPUT_SIZE, OUTPUT_SIZE);
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+            if (task === 'orthographic-side') {
+                // Squash horizontally to suggest the depth profile
+                drawContained(ctx, source, OUTPUT_SIZE * 0.3, 0, OUTPUT_SIZE * 0.4, OUTPUT_SIZE);
+            } else {
+                drawContained(ctx, source, 0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+            }
+            return toResult(renderLineDrawing(canvas));
+        }
+        case 'blueprint-dimensions': {
+            // Nothing to refine offline; return the blueprint untouched
+            const [canvas, ctx] = createCanvas(source.width, source.height);
+            ctx.drawImage(source, 0, 0);
+            return toResult(canvas);
+        }
+        case 'sketch-edit': {
+            // Blend the sketch strokes into the photo as a soft tinted overlay
+            const [canvas, ctx] = createCanvas(source.width, source.height);
+            ctx.drawImage(source, 0, 0);
+            if (request.images[1]) {
+                const sketch = await loadImage(request.images[1].base64Data, request.images[1].mimeType);
+                ctx.globalAlpha = 0.45;
+                ctx.globalCompositeOperation = 'multiply';
+                ctx.drawImage(sketch, 0, 0, source.width, source.height);
+                ctx.globalAlpha = 1;
+                ctx.globalCompositeOperation = 'source-over';
+            }
+            return toResult(canvas);
+        }
+        case 'masked-edit':
+        case 'reposition':
+        case 'variation':
+        default: {
+            // Tinted composite: colour the editable area so the change is visible
+            const [canvas, ctx] = createCanvas(source.width, source.height);
+            ctx.drawImage(source, 0, 0);
+            const [tint, tintCtx] = createCanvas(source.width, source.height);
+            tintCtx.fillStyle = tintColorFor(request.prompt);
+            tintCtx.fillRect(0, 0, source.width, source.height);
+            if (maskBase64) {
+                // Keep the tint only where the mask is white
+                const mask = await loadImage(maskBase64);
+                const [maskAlpha, maskCtx] = createCanvas(source.width, source.height);
+                maskCtx.drawImage(mask, 0, 0, source.width, source.height);
+                const maskData = maskCtx.getImageData(0, 0, source.width, source.height);
+                for (let i = 0; i < maskData.data.length; i += 4) {
+                    maskData.data[i + 3] = maskData.data[i];
+                }
+                maskCtx.putImageData(maskData, 0, 0);
+                tintCtx.globalCompositeOperation = 'destination-in';
+                tintCtx.drawImage(maskAlpha, 0, 0);
+            }
+            ctx.drawImage(tint, 0, 0);
+            return toResult(canvas);
+        }
+    }
+};
+
+const editImage = async (request: ImageEditRequest): Promise<ImageResult> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, request.signal);
+    return renderTask(request.task, request);
+};
+
+const editImageWithMask = async (request: MaskedEditRequest): Promise<ImageResult> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, request.signal);
+    return renderTask(request.task, request, request.maskBase64);
+};
+
+// Grid-based detection: one parent box around the central area, split into a 2x2 grid of parts
+const segmentObjects = async (request: SegmentationRequest): Promise<ApiObject[]> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, request.signal);
+    const parent: ApiObject = { id: 'demo-0', parentId: null, label: 'furniture', box_2d: [150, 150, 850, 850] };
+    const partLabels = ['top left section', 'top right section', 'bottom left section', 'bottom right section'];
+    const parts: ApiObject[] = partLabels.map((label, i) => {
+        const row = Math.floor(i / 2);
+        const col = i % 2;
+        return {
+            id: `demo-${i + 1}`,
+            parentId: parent.id,
+            label,
+            box_2d: [150 + row * 350, 150 + col * 350, 500 + row * 350, 500 + col * 350],
+        };
+    });
+    return [parent, ...parts];
+};
+
+const planEdits = async (request: PlanningRequest): Promise<EditPlan> => {
+    await abortableDelay(SIMULATED_LATENCY_MS, request.signal);
+    return {
+        textResponse: "Offline demo mode: generating local previews of your request.",
+        imagePrompts: [
+            request.userPrompt,
+            `${request.userPrompt} (warm)`,
+            `${request.userPrompt} (cool)`,
+        ],
+        followUpSuggestions: [],
+    };
+};
+
+export const offlineDemoProvider: AiProvider = {
+    id: 'offline-demo',
+    label: 'Offline Demo',
+    imageModelId: 'offline-demo-canvas-v1',
+    visionModelId: 'offline-demo-grid-v1',
+    editImage,
+    editImageWithMask,
+    segmentObjects,
+    planEdits,
+};
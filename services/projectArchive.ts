@@ -0,0 +1,338 @@
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { DetectedObject, Dimension, DrawingMetadata, EditorMode, ImageVariation, BoundingBox, ObjectTransform } from "../types";
+import { EditorProject } from "./projectStore";
+
+// Portable project files: a zip holding `project.json` (the manifest) plus every image as its own
+// file. The manifest carries a schema version; files from older builds are upgraded step by step
+// through MIGRATIONS on import, and files from newer builds are refused rather than half-read.
+
+const FORMAT = 'appenz-project';
+export const ARCHIVE_SCHEMA_VERSION = 2;
+const MANIFEST_PATH = 'project.json';
+
+// Dimension lines are stored in pixels of the blueprint canvas (see TechnicalDrawingExport)
+const DIMENSION_CANVAS = { width: 1974, height: 1711 };
+
+export type ProjectArchiveErrorReason = 'invalid' | 'newer-version';
+
+export class ProjectArchiveError extends Error {
+    readonly reason: ProjectArchiveErrorReason;
+
+    constructor(reason: ProjectArchiveErrorReason, message: string, options?: { cause?: unknown }) {
+        super(message);
+        this.name = 'ProjectArchiveError';
+        this.reason = reason;
+        if (options?.cause !== undefined) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+// An image file in the archive; `bare` images were base64 without a data URL prefix in the editor
+interface ArchiveImage {
+    path: string;
+    type: string;
+    bare: boolean;
+}
+
+interface ArchiveObject extends Omit<DetectedObject, 'mask' | 'thumbnailUrl' | 'children'> {
+    mask: ArchiveImage;
+    thumbnail?: ArchiveImage;
+    children: ArchiveObject[];
+}
+
+// Errors and retry payloads are transient and not exported
+interface ArchiveVersion extends Omit<ImageVariation, 'imageUrl' | 'rawImageUrl' | 'createdAt' | 'objects' | 'isLoading' | 'isError' | 'errorMessage' | 'errorKind' | 'retryPayload'> {
+    image: ArchiveImage;
+    rawImage?: ArchiveImage;
+    createdAt: string; // ISO date
+    objects?: ArchiveObject[];
+}
+
+export interface ProjectManifest {
+    format: typeof FORMAT;
+    schemaVersion: number;
+    exportedAt: string;
+    title: string;
+    settings: {
+        mode: EditorMode;
+        zoom: number;
+        fitToScreen: boolean;
+        studioPresetId: string;
+    };
+    uploads: { path: string, name: string, type: string }[];
+    heroUpload: number; // index into uploads of the photo the studio shot is built around (schema 2)
+    versions: ArchiveVersion[]; // the version tree, through parentId
+    currentVersionId: string | null;
+    objects: ArchiveObject[]; // tree of the open image, with unsaved edits below
+    objectEdits: {
+        modifiedBoxes: Record<string, BoundingBox>;
+        modifiedTransforms: Record<string, ObjectTransform>;
+        duplicatedObjectIds: string[];
+        arrangementNotes: string[];
+    };
+    sketch: ArchiveImage | null;
+    views: {
+        blueprint: ArchiveImage | null;
+        isometric: ArchiveImage | null;
+        front: ArchiveImage | null;
+        side: ArchiveImage | null;
+    };
+    dimensions: {
+        calibration: { width: number, height: number, unit: 'px' }; // the canvas the lines were drawn on
+        lines: Dimension[];
+    };
+    metadata: DrawingMetadata;
+}
+
+// A parsed manifest before it is known to match ProjectManifest
+type ManifestRecord = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a schema n manifest to schema n + 1. Add one whenever the schema version goes up.
+const MIGRATIONS: Record<number, (manifest: ManifestRecord) => ManifestRecord> = {
+    // 2: the hero photo can be chosen; before that it was always the first upload
+    1: (manifest) => ({ ...manifest, heroUpload: 0 }),
+};
+
+const isDataUrl = (value: string) => value.startsWith('data:');
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+/**
+ * Writes the project as a zip archive (see ProjectManifest for the layout).
+ */
+export const exportProjectArchive = async (project: EditorProject): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    // The same mask or thumbnail shows up in several versions' trees; write it once
+    const written = new Map<string, ArchiveImage>();
+
+    const addImage = async (value: string, path: string): Promise<ArchiveImage> => {
+        const existing = written.get(value);
+        if (existing) return existing;
+        const blob = await (await fetch(isDataUrl(value) ? value : `data:image/png;base64,${value}`)).blob();
+        const type = blob.type || 'image/png';
+        const image = { path: `${path}.${EXTENSIONS[type] ?? 'bin'}`, type, bare: !isDataUrl(value) };
+        entries.push({ path: image.path, data: new Uint8Array(await blob.arrayBuffer()) });
+        written.set(value, image);
+        return image;
+    };
+
+    const addObjects = (objects: DetectedObject[], dir: string): Promise<ArchiveObject[]> =>
+        Promise.all(objects.map(async ({ mask, thumbnailUrl, children, ...object }) => ({
+            ...object,
+            mask: await addImage(mask, `${dir}/${safeFileName(object.id)}-mask`),
+            thumbnail: thumbnailUrl ? await addImage(thumbnailUrl, `${dir}/${safeFileName(object.id)}-thumb`) : undefined,
+            children: await addObjects(children, dir),
+        })));
+
+    const uploads: ProjectManifest['uploads'] = [];
+    for (const [i, file] of project.sourceFiles.entries()) {
+        const path = `uploads/${i + 1}-${safeFileName(file.name)}`;
+        entries.push({ path, data: new Uint8Array(await file.arrayBuffer()) });
+        uploads.push({ path, name: file.name, type: file.type });
+    }
+
+    const versions: ArchiveVersion[] = [];
+    for (const { imageUrl, rawImageUrl, createdAt, objects, isLoading, isError, errorMessage, errorKind, retryPayload, ...version } of project.imageHistory) {
+        const dir = `versions/${safeFileName(version.id)}`;
+        versions.push({
+            ...version,
+            createdAt: new Date(createdAt).toISOString(),
+            image: await addImage(imageUrl, `${dir}/image`),
+            rawImage: rawImageUrl ? await addImage(rawImageUrl, `${dir}/raw`) : undefined,
+            objects: objects ? await addObjects(objects, `${dir}/objects`) : undefined,
+        });
+    }
+
+    const manifest: ProjectManifest = {
+        format: FORMAT,
+        schemaVersion: ARCHIVE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        title: project.title,
+        settings: {
+            mode: project.mode,
+            zoom: project.zoom,
+            fitToScreen: project.fitToScreen,
+            studioPresetId: project.studioPresetId,
+        },
+        uploads,
+        heroUpload: project.heroFileIndex,
+        versions,
+        currentVersionId: project.currentImageId,
+        objects: await addObjects(project.objects, 'objects'),
+        objectEdits: {
+            modifiedBoxes: project.modifiedBoxes,
+            modifiedTransforms: project.modifiedTransforms,
+            duplicatedObjectIds: project.duplicatedObjectIds,
+            arrangementNotes: project.arrangementNotes,
+        },
+        sketch: project.sketchImage ? await addImage(project.sketchImage, 'sketch') : null,
+        views: {
+            blueprint: project.blueprintImage ? await addImage(project.blueprintImage, 'views/blueprint') : null,
+            isometric: project.isometricImage ? await addImage(project.isometricImage, 'views/isometric') : null,
+            front: project.orthographicViews ? await addImage(project.orthographicViews.front, 'views/front') : null,
+            side: project.orthographicViews ? await addImage(project.orthographicViews.side, 'views/side') : null,
+        },
+        dimensions: {
+            calibration: { ...DIMENSION_CANVAS, unit: 'px' },
+            lines: project.dimensions,
+        },
+        metadata: project.metadata,
+    };
+
+    const manifestEntry = { path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+    return createZip([manifestEntry, ...entries]);
+};
+
+const bytesToImage = (bytes: Uint8Array, image: ArchiveImage): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        const dataUrl = reader.result as string;
+        resolve(image.bare ? dataUrl.split(',')[1] : dataUrl);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([bytes as BlobPart], { type: image.type }));
+});
+
+const isRecord = (value: unknown): value is ManifestRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isArchiveImage = (value: unknown): value is ArchiveImage =>
+    isRecord(value) && typeof value.path === 'string' && typeof value.type === 'string' && typeof value.bare === 'boolean';
+
+const isOptionalImage = (value: unknown) => value === undefined || value === null || isArchiveImage(value);
+
+const isArchiveObjectList = (value: unknown): value is ArchiveObject[] =>
+    Array.isArray(value) && value.every(object =>
+        isRecord(object) && typeof object.id === 'string' && isArchiveImage(object.mask)
+        && isOptionalImage(object.thumbnail) && isArchiveObjectList(object.children));
+
+// Checks the parts of a (migrated) manifest that import relies on; returns what is wrong, or null
+const findManifestProblem = (manifest: ManifestRecord): string | null => {
+    const { settings, uploads, versions, objectEdits, views, dimensions } = manifest;
+    if (typeof manifest.title !== 'string') return 'title';
+    if (!isRecord(settings) || typeof settings.mode !== 'string') return 'settings';
+    if (!Array.isArray(uploads) || !uploads.every(u => isRecord(u) && typeof u.path === 'string' && typeof u.name === 'string')) return 'uploads';
+    if (typeof manifest.heroUpload !== 'number') return 'heroUpload';
+    if (!Array.isArray(versions) || !versions.every(v =>
+        isRecord(v) && typeof v.id === 'string' && isArchiveImage(v.image) && isOptionalImage(v.rawImage)
+        && (v.objects === undefined || isArchiveObjectList(v.objects)))) return 'versions';
+    if (!isArchiveObjectList(manifest.objects)) return 'objects';
+    if (!isRecord(objectEdits) || !isRecord(objectEdits.modifiedBoxes) || !isRecord(objectEdits.modifiedTransforms)
+        || !Array.isArray(objectEdits.duplicatedObjectIds) || !Array.isArray(objectEdits.arrangementNotes)) return 'objectEdits';
+    if (!isOptionalImage(manifest.sketch)) return 'sketch';
+    if (!isRecord(views) || ![views.blueprint, views.isometric, views.front, views.side].every(isOptionalImage)) return 'views';
+    if (!isRecord(dimensions) || !isRecord(dimensions.calibration) || !Array.isArray(dimensions.lines)
+        || !(Number(dimensions.calibration.width) > 0) || !(Number(dimensions.calibration.height) > 0)) return 'dimensions';
+    if (!isRecord(manifest.metadata)) return 'metadata';
+    return null;
+};
+
+// Brings a manifest of any supported schema version up to the current one and checks its shape
+const migrateManifest = (manifest: unknown): ProjectManifest => {
+    if (!isRecord(manifest) || manifest.format !== FORMAT || typeof manifest.schemaVersion !== 'number') {
+        throw new ProjectArchiveError('invalid', 'Not a project file.');
+    }
+    if (manifest.schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+        throw new ProjectArchiveError('newer-version', `The project file uses schema version ${manifest.schemaVersion}; this build reads up to ${ARCHIVE_SCHEMA_VERSION}.`);
+    }
+    let current = manifest;
+    for (let version = manifest.schemaVersion; version < ARCHIVE_SCHEMA_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new ProjectArchiveError('invalid', `No migration from schema version ${version}.`);
+        current = { ...migrate(current), schemaVersion: version + 1 };
+    }
+    const problem = findManifestProblem(current);
+    if (problem) throw new ProjectArchiveError('invalid', `The project file's manifest has a missing or malformed "${problem}".`);
+    return current as unknown as ProjectManifest;
+};
+
+// Lines drawn on a differently sized canvas are scaled onto the current one
+const calibrateDimensions = ({ calibration, lines }: ProjectManifest['dimensions']): Dimension[] => {
+    const sx = DIMENSION_CANVAS.width / calibration.width;
+    const sy = DIMENSION_CANVAS.height / calibration.height;
+    if (sx === 1 && sy === 1) return lines;
+    return lines.map(line => ({
+        ...line,
+        x1: line.x1 * sx,
+        y1: line.y1 * sy,
+        x2: line.x2 * sx,
+        y2: line.y2 * sy,
+        offset: line.offset * Math.min(sx, sy),
+    }));
+};
+
+/**
+ * Reads a project file written by exportProjectArchive, migrating older schema versions. The
+ * project gets a new id so importing never overwrites a saved project. Throws ProjectArchiveError.
+ */
+export const importProjectArchive = async (file: Blob): Promise<EditorProject> => {
+    let files: Map<string, Uint8Array>;
+    let manifest: ProjectManifest;
+    try {
+        files = await readZip(file);
+        const manifestBytes = files.get(MANIFEST_PATH);
+        if (!manifestBytes) throw new Error(`${MANIFEST_PATH} is missing.`);
+        manifest = migrateManifest(JSON.parse(new TextDecoder().decode(manifestBytes)));
+    } catch (error) {
+        if (error instanceof ProjectArchiveError) throw error;
+        throw new ProjectArchiveError('invalid', 'Could not read the project file.', { cause: error });
+    }
+
+    const readImage = (image: ArchiveImage) => {
+        const bytes = files.get(image.path);
+        if (!bytes) throw new ProjectArchiveError('invalid', `${image.path} is missing from the project file.`);
+        return bytesToImage(bytes, image);
+    };
+
+    const readObjects = (objects: ArchiveObject[]): Promise<DetectedObject[]> =>
+        Promise.all(objects.map(async ({ mask, thumbnail, children, ...object }) => ({
+            ...object,
+            mask: await readImage(mask),
+            thumbnailUrl: thumbnail ? await readImage(thumbnail) : undefined,
+            children: await readObjects(children),
+        })));
+
+    try {
+        const { settings, objectEdits, views } = manifest;
+        // Uploads missing from the zip are dropped; the hero keeps pointing at its photo, or the first if it's gone
+        const keptUploads = manifest.uploads.filter(upload => files.has(upload.path));
+        const hero = manifest.uploads[manifest.heroUpload];
+        const heroFileIndex = hero ? Math.max(0, keptUploads.indexOf(hero)) : 0;
+        return {
+            id: `project-${Date.now()}`,
+            title: manifest.title,
+            ...settings,
+            sourceFiles: keptUploads.map(upload => new File([files.get(upload.path)! as BlobPart], upload.name, { type: upload.type })),
+            heroFileIndex,
+            imageHistory: await Promise.all(manifest.versions.map(async ({ image, rawImage, createdAt, objects, ...version }) => ({
+                ...version,
+                createdAt: new Date(createdAt),
+                imageUrl: await readImage(image),
+                rawImageUrl: rawImage ? await readImage(rawImage) : undefined,
+                objects: objects ? await readObjects(objects) : undefined,
+            }))),
+            currentImageId: manifest.currentVersionId,
+            objects: await readObjects(manifest.objects),
+            ...objectEdits,
+            blueprintImage: views.blueprint ? await readImage(views.blueprint) : null,
+            isometricImage: views.isometric ? await readImage(views.isometric) : null,
+            orthographicViews: views.front && views.side
+                ? { front: await readImage(views.front), side: await readImage(views.side) }
+                : null,
+            sketchImage: manifest.sketch ? await readImage(manifest.sketch) : null,
+            dimensions: calibrateDimensions(manifest.dimensions),
+            metadata: manifest.metadata,
+        };
+    } catch (error) {
+        if (error instanceof ProjectArchiveError) throw error;
+        throw new ProjectArchiveError('invalid', 'Could not read the images in the project file.', { cause: error });
+    }
+};
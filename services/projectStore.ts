@@ -0,0 +1,327 @@
+import { openDatabase, requestToPromise, transactionDone } from "../utils/idb";
+import { contentHash } from "../utils/hashUtils";
+import { dropVersions } from "../utils/versionTree";
+import { BoundingBox, DetectedObject, Dimension, DrawingMetadata, EditorMode, ImageVariation, ObjectTransform } from "../types";
+
+// Editor projects autosaved to IndexedDB so work survives a reload. Summaries (for the recent list),
+// the editor state and the image data live in separate stores; images are Blobs, and the state only
+// references them. Version images never change, so they are keyed by version id; the blueprint
+// images, object masks and thumbnails are keyed by content. Either way a save only writes images
+// that aren't stored yet.
+
+const DB_NAME = 'appenz-projects';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const STATE_STORE = 'states';
+const BLOB_STORE = 'blobs';
+
+/** Everything needed to reopen the editor where it was left. Images are data URLs or bare base64, as in the editor. */
+export interface EditorProject {
+    id: string;
+    title: string;
+    mode: EditorMode;
+    zoom: number;
+    fitToScreen: boolean;
+    studioPresetId: string;
+    sourceFiles: File[];
+    heroFileIndex: number; // the source photo the studio shot is built around
+    imageHistory: ImageVariation[];
+    currentImageId: string | null;
+    objects: DetectedObject[];
+    modifiedBoxes: Record<string, BoundingBox>;
+    modifiedTransforms: Record<string, ObjectTransform>;
+    duplicatedObjectIds: string[];
+    arrangementNotes: string[];
+    blueprintImage: string | null;
+    isometricImage: string | null;
+    orthographicViews: { front: string, side: string } | null;
+    sketchImage: string | null; // the sketch layer as bare base64 PNG, at the canvas size it was drawn on
+    dimensions: Dimension[];
+    metadata: DrawingMetadata;
+}
+
+export interface ProjectSummary {
+    id: string;
+    title: string;
+    mode: EditorMode;
+    versionCount: number;
+    updatedAt: number;
+    thumbnailKey: string | null;
+}
+
+// Blob keys of source photos; they survive reordering and removal, so unchanged photos aren't rewritten
+const fileBlobKeys = new WeakMap<File, string>();
+
+// Reference into the blob store; `bare` images were base64 without a data URL prefix
+interface StoredImage {
+    key: string;
+    bare: boolean;
+}
+
+// Saves from before masks and thumbnails moved to the blob store have them inline
+interface StoredObject extends Omit<DetectedObject, 'mask' | 'children'> {
+    mask: StoredImage | string;
+    thumbnail?: StoredImage;
+    children: StoredObject[];
+}
+
+type StoredVersion = Omit<ImageVariation, 'imageUrl' | 'rawImageUrl' | 'objects'> & { image: StoredImage, rawImage?: StoredImage, objects?: StoredObject[] };
+
+interface StoredState extends Omit<EditorProject, 'sourceFiles' | 'imageHistory' | 'objects' | 'blueprintImage' | 'isometricImage' | 'orthographicViews' | 'sketchImage'> {
+    sourceFileKeys: { key: string, name: string, type: string }[];
+    imageHistory: StoredVersion[];
+    objects: StoredObject[];
+    blueprintImage: StoredImage | null;
+    isometricImage: StoredImage | null;
+    orthographicViews: { front: StoredImage, side: StoredImage } | null;
+    sketchImage?: StoredImage | null; // missing in saves from before sketches were kept
+}
+
+interface StoredBlob {
+    key: string;
+    projectId: string;
+    blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const projects = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+            projects.createIndex('updatedAt', 'updatedAt');
+            db.createObjectStore(STATE_STORE, { keyPath: 'id' });
+            const blobs = db.createObjectStore(BLOB_STORE, { keyPath: 'key' });
+            blobs.createIndex('projectId', 'projectId');
+        });
+        // Let a later call retry if opening failed (e.g. storage blocked)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const isDataUrl = (value: string) => value.startsWith('data:');
+
+const imageToBlob = async (value: string): Promise<Blob> => {
+    const response = await fetch(isDataUrl(value) ? value : `data:image/png;base64,${value}`);
+    return response.blob();
+};
+
+const blobToImage = (blob: Blob, bare: boolean): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        const dataUrl = reader.result as string;
+        resolve(bare ? dataUrl.split(',')[1] : dataUrl);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Saves the project, replacing the previous save. Images already stored are not written again and
+ * images the project no longer uses are deleted.
+ */
+export const saveProject = async (project: EditorProject): Promise<void> => {
+    const db = await getDb();
+    const existingKeys = new Set(await requestToPromise(
+        db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).index('projectId').getAllKeys(project.id)
+    ) as string[]);
+
+    // Collect the blobs to write before opening the write transaction (it must not wait on anything else)
+    const blobs = new Map<string, Blob>();
+    const used = new Set<string>();
+    const storeImage = async (value: string, key?: string): Promise<StoredImage> => {
+        const blobKey = `${project.id}:${key ?? await contentHash(value)}`;
+        if (!existingKeys.has(blobKey) && !blobs.has(blobKey)) blobs.set(blobKey, await imageToBlob(value));
+        used.add(blobKey);
+        return { key: blobKey, bare: !isDataUrl(value) };
+    };
+
+    const storeObjects = (objects: DetectedObject[]): Promise<StoredObject[]> =>
+        Promise.all(objects.map(async ({ mask, thumbnailUrl, children, ...object }) => ({
+            ...object,
+            mask: await storeImage(mask),
+            thumbnail: thumbnailUrl ? await storeImage(thumbnailUrl) : undefined,
+            children: await storeObjects(children),
+        })));
+
+    const imageHistory: StoredVersion[] = [];
+    for (const { imageUrl, rawImageUrl, objects, ...version } of project.imageHistory) {
+        imageHistory.push({
+            ...version,
+            image: await storeImage(imageUrl, `version:${version.id}`),
+            rawImage: rawImageUrl ? await storeImage(rawImageUrl, `version-raw:${version.id}`) : undefined,
+            objects: objects ? await storeObjects(objects) : undefined,
+        });
+    }
+    const sourceFileKeys = project.sourceFiles.map((file, i) => {
+        let key = fileBlobKeys.get(file);
+        if (!key?.startsWith(`${project.id}:`)) {
+            key = `${project.id}:source:${Date.now()}-${i}`;
+            fileBlobKeys.set(file, key);
+        }
+        if (!existingKeys.has(key)) blobs.set(key, file);
+        used.add(key);
+        return { key, name: file.name, type: file.type };
+    });
+    const { sourceFiles, ...rest } = project;
+    const state: StoredState = {
+        ...rest,
+        sourceFileKeys,
+        imageHistory,
+        objects: await storeObjects(project.objects),
+        blueprintImage: project.blueprintImage ? await storeImage(project.blueprintImage) : null,
+        isometricImage: project.isometricImage ? await storeImage(project.isometricImage) : null,
+        orthographicViews: project.orthographicViews
+            ? { front: await storeImage(project.orthographicViews.front), side: await storeImage(project.orthographicViews.side) }
+            : null,
+        sketchImage: project.sketchImage ? await storeImage(project.sketchImage) : null,
+    };
+    const current = imageHistory.find(v => v.id === project.currentImageId) ?? imageHistory[imageHistory.length - 1];
+    const summary: ProjectSummary = {
+        id: project.id,
+        title: project.title,
+        mode: project.mode,
+        versionCount: imageHistory.length,
+        updatedAt: Date.now(),
+        thumbnailKey: current?.image.key ?? null,
+    };
+
+    const tx = db.transaction([PROJECT_STORE, STATE_STORE, BLOB_STORE], 'readwrite');
+    const blobStore = tx.objectStore(BLOB_STORE);
+    blobs.forEach((blob, key) => blobStore.put({ key, projectId: project.id, blob } as StoredBlob));
+    existingKeys.forEach(key => { if (!used.has(key)) blobStore.delete(key); });
+    tx.objectStore(STATE_STORE).put(state);
+    tx.objectStore(PROJECT_STORE).put(summary);
+    await transactionDone(tx);
+};
+
+/**
+ * Loads a saved project, or null if it doesn't exist or can't be read. Images whose blob is gone are
+ * left out: versions and objects without their image are dropped, optional images come back empty.
+ */
+export const loadProject = async (id: string): Promise<EditorProject | null> => {
+    try {
+        const db = await getDb();
+        const tx = db.transaction([STATE_STORE, BLOB_STORE], 'readonly');
+        const state = await requestToPromise<StoredState | undefined>(tx.objectStore(STATE_STORE).get(id));
+        if (!state) return null;
+        const stored = await requestToPromise<StoredBlob[]>(tx.objectStore(BLOB_STORE).index('projectId').getAll(id));
+        const blobs = new Map(stored.map(entry => [entry.key, entry.blob]));
+
+        const missing: string[] = [];
+        const readImage = async (image: StoredImage): Promise<string | null> => {
+            const blob = blobs.get(image.key);
+            if (!blob) {
+                missing.push(image.key);
+                return null;
+            }
+            return blobToImage(blob, image.bare);
+        };
+
+        const readObjects = async (objects: StoredObject[]): Promise<DetectedObject[]> => {
+            const read = await Promise.all(objects.map(async ({ mask, thumbnail, children, ...object }): Promise<DetectedObject | null> => {
+                const maskImage = typeof mask === 'string' ? mask : await readImage(mask);
+                if (maskImage === null) return null;
+                return {
+                    ...object,
+                    mask: maskImage,
+                    thumbnailUrl: thumbnail ? (await readImage(thumbnail)) ?? undefined : object.thumbnailUrl,
+                    children: await readObjects(children),
+                };
+            }));
+            return read.filter((object): object is DetectedObject => object !== null);
+        };
+
+        const { sourceFileKeys, imageHistory, objects, blueprintImage, isometricImage, orthographicViews, sketchImage, ...rest } = state;
+        // Photos whose blob is gone are dropped; the hero keeps pointing at its photo, or the first if it's gone.
+        // Saves from before the hero photo could be chosen have no index: it was the first photo.
+        const keptFiles = sourceFileKeys.filter(f => blobs.has(f.key));
+        const hero = sourceFileKeys[rest.heroFileIndex ?? 0];
+
+        const read = await Promise.all(imageHistory.map(async ({ image, rawImage, objects, ...version }): Promise<ImageVariation> => {
+            const imageUrl = await readImage(image);
+            return {
+                ...version,
+                // Dates come back as Dates from IndexedDB; older entries may not have one
+                createdAt: version.createdAt ? new Date(version.createdAt) : new Date(),
+                imageUrl: imageUrl ?? '', // no image: dropped below
+                rawImageUrl: imageUrl && rawImage ? (await readImage(rawImage)) ?? undefined : undefined,
+                objects: imageUrl && objects ? await readObjects(objects) : undefined,
+            };
+        }));
+        const versions = dropVersions(read, new Set(read.filter(v => !v.imageUrl).map(v => v.id)));
+        // If the current version was dropped, reopen on the newest one left, or on the uploads when none are
+        const currentImageId = versions.some(v => v.id === rest.currentImageId)
+            ? rest.currentImageId
+            : versions[versions.length - 1]?.id ?? null;
+
+        const front = orthographicViews && await readImage(orthographicViews.front);
+        const side = orthographicViews && await readImage(orthographicViews.side);
+        const project: EditorProject = {
+            ...rest,
+            mode: currentImageId ? rest.mode : 'UPLOAD',
+            sourceFiles: keptFiles.map(f => {
+                const file = new File([blobs.get(f.key)!], f.name, { type: f.type });
+                fileBlobKeys.set(file, f.key);
+                return file;
+            }),
+            heroFileIndex: hero ? Math.max(0, keptFiles.indexOf(hero)) : 0,
+            imageHistory: versions,
+            currentImageId,
+            objects: await readObjects(objects),
+            blueprintImage: blueprintImage ? await readImage(blueprintImage) : null,
+            isometricImage: isometricImage ? await readImage(isometricImage) : null,
+            orthographicViews: front && side ? { front, side } : null,
+            sketchImage: sketchImage ? await readImage(sketchImage) : null,
+        };
+        if (missing.length > 0) {
+            console.warn(`Project ${id} is missing ${missing.length} image(s); the parts using them were left out:`, missing);
+        }
+        return project;
+    } catch (error) {
+        console.warn(`Could not load project ${id}:`, error);
+        return null;
+    }
+};
+
+/**
+ * Saved projects, most recently updated first. Returns an empty list if storage is unavailable.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    try {
+        const db = await getDb();
+        const summaries = await requestToPromise<ProjectSummary[]>(
+            db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).index('updatedAt').getAll()
+        );
+        return summaries.reverse();
+    } catch (error) {
+        console.warn('Could not list saved projects:', error);
+        return [];
+    }
+};
+
+export const loadProjectThumbnail = async (summary: ProjectSummary): Promise<Blob | null> => {
+    if (!summary.thumbnailKey) return null;
+    try {
+        const db = await getDb();
+        const entry = await requestToPromise<StoredBlob | undefined>(
+            db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).get(summary.thumbnailKey)
+        );
+        return entry?.blob ?? null;
+    } catch (error) {
+        console.warn('Could not load project thumbnail:', error);
+        return null;
+    }
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction([PROJECT_STORE, STATE_STORE, BLOB_STORE], 'readwrite');
+    tx.objectStore(PROJECT_STORE).delete(id);
+    tx.objectStore(STATE_STORE).delete(id);
+    const blobStore = tx.objectStore(BLOB_STORE);
+    const keys = await requestToPromise(blobStore.index('projectId').getAllKeys(id));
+    keys.forEach(key => blobStore.delete(key));
+    await transactionDone(tx);
+};
@@ -0,0 +1,123 @@
+import { PromptTemplateRef } from "../types";
+
+// Named, versioned prompt templates loaded from prompts/*.json (next to locales/).
+// Templates use the same {{VARIABLE}} placeholders as i18n; each variable declares a type
+// and an optional default, and renderPrompt validates the values before substituting them.
+
+export type PromptVariableType = 'string' | 'number' | 'enum';
+
+export interface PromptVariableDefinition {
+    type: PromptVariableType;
+    default?: string | number;
+    options?: string[]; // allowed values for 'enum'
+}
+
+export interface PromptTemplate {
+    id: string;
+    version: number;
+    description?: string;
+    variables: Record<string, PromptVariableDefinition>;
+    template: string[]; // one entry per line, kept as an array so the JSON stays readable
+}
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+export interface RenderedPrompt {
+    text: string;
+    template: PromptTemplateRef;
+}
+
+const PROMPT_FILES = ['studio', 'technical', 'editing'];
+
+// Every loaded version per template id, sorted ascending
+const templates = new Map<string, PromptTemplate[]>();
+
+export const registerPromptTemplate = (template: PromptTemplate) => {
+    const versions = (templates.get(template.id) || []).filter(t => t.version !== template.version);
+    versions.push(template);
+    versions.sort((a, b) => a.version - b.version);
+    templates.set(template.id, versions);
+};
+
+export const initPromptRegistry = async (): Promise<void> => {
+    const files = await Promise.all(PROMPT_FILES.map(async (name) => {
+        const response = await fetch(`./prompts/${name}.json`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch prompt templates "${name}"`);
+        }
+        return response.json() as Promise<{ templates: PromptTemplate[] }>;
+    }));
+
+    files.forEach(file => file.templates.forEach(registerPromptTemplate));
+};
+
+/**
+ * Returns the requested version of a template, or the latest one when no version is given.
+ */
+export const getPromptTemplate = (id: string, version?: number): PromptTemplate => {
+    const versions = templates.get(id);
+    if (!versions || versions.length === 0) {
+        throw new Error(`No prompt template registered for "${id}".`);
+    }
+    if (version === undefined) {
+        return versions[versions.length - 1];
+    }
+    const match = versions.find(t => t.version === version);
+    if (!match) {
+        throw new Error(`Prompt template "${id}" has no version ${version}.`);
+    }
+    return match;
+};
+
+export const listPromptTemplates = (): PromptTemplate[] => {
+    return Array.from(templates.values()).flat();
+};
+
+const resolveVariable = (template: PromptTemplate, name: string, definition: PromptVariableDefinition, value: string | number | undefined): string => {
+    const resolved = value ?? definition.default;
+    if (resolved === undefined) {
+        throw new Error(`Prompt template "${template.id}" v${template.version} is missing variable ${name}.`);
+    }
+
+    switch (definition.type) {
+        case 'number':
+            if (typeof resolved !== 'number' || !Number.isFinite(resolved)) {
+                throw new Error(`Prompt variable ${name} of "${template.id}" must be a number.`);
+            }
+            break;
+        case 'enum':
+            if (!definition.options?.includes(String(resolved))) {
+                throw new Error(`Prompt variable ${name} of "${template.id}" must be one of ${definition.options?.join(', ')}.`);
+            }
+            break;
+        case 'string':
+            if (typeof resolved !== 'string') {
+                throw new Error(`Prompt variable ${name} of "${template.id}" must be a string.`);
+            }
+            break;
+    }
+
+    return String(resolved);
+};
+
+/**
+ * Fills in a template and reports which id/version produced the text.
+ */
+export const renderPrompt = (id: string, variables: PromptVariables = {}, version?: number): RenderedPrompt => {
+    const template = getPromptTemplate(id, version);
+
+    const unknown = Object.keys(variables).filter(name => !(name in template.variables));
+    if (unknown.length > 0) {
+        throw new Error(`Prompt template "${id}" v${template.version} has no variable ${unknown.join(', ')}.`);
+    }
+
+    const values: Record<string, string> = {};
+    Object.entries(template.variables).forEach(([name, definition]) => {
+        values[name] = resolveVariable(template, name, definition, variables[name]);
+    });
+
+    // Single pass so substituted values are never scanned for placeholders again
+    const text = template.template.join('\n').replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+
+    return { text, template: { id: template.id, version: template.version } };
+};
@@ -0,0 +1,103 @@
+// Scene presets for the initial studio shot. Each preset fills the variables of the
+// studio-shot prompt template and picks the output aspect ratio.
+
+export type StudioAspectRatio = '1:1' | '4:3' | '3:4' | '16:9';
+
+export interface StudioPreset {
+    id: string;
+    label: string;
+    description: string;
+    styleName: string;
+    background: string;
+    floor: string;
+    lighting: string;
+    cameraView: string;
+    aspectRatio: StudioAspectRatio;
+    swatch: string; // preview colour for the picker
+}
+
+const ASPECT_RATIO_LABELS: Record<StudioAspectRatio, string> = {
+    '1:1': 'Square 1:1',
+    '4:3': 'Landscape 4:3',
+    '3:4': 'Portrait 3:4',
+    '16:9': 'Wide 16:9',
+};
+
+export const STUDIO_PRESETS: StudioPreset[] = [
+    {
+        id: 'loft-gallery',
+        label: '창고/갤러리',
+        description: '라이트 그레이지 벽, 폴리싱 콘크리트 바닥',
+        styleName: '깔끔한 창고/갤러리 스타일',
+        background: 'The furniture is centrally placed in a spacious, minimalist industrial loft or gallery space. The background is a smooth, matte light greige (grey+beige mix) architectural wall, free of imperfections.',
+        floor: 'It sits on a polished, light-toned concrete floor with a very low satin sheen (not glossy).',
+        lighting: 'The scene is illuminated by soft, diffused, large-source neutral architectural lighting (simulating light from large North-facing windows or huge softboxes). The overall color balance is perfectly neutral.',
+        cameraView: 'Front view',
+        aspectRatio: '1:1',
+        swatch: '#CFC8BE',
+    },
+    {
+        id: 'white-sweep',
+        label: '화이트 스윕',
+        description: '이커머스용 무한 백색 배경',
+        styleName: '이커머스 화이트 스튜디오',
+        background: 'The furniture stands in a professional photo studio in front of a seamless pure white paper sweep (cyclorama) that curves smoothly into the floor with no visible horizon line.',
+        floor: 'The floor is the same seamless matte white sweep, with only a faint soft contact shadow under the furniture.',
+        lighting: 'Bright, even, high-key softbox lighting from both sides and above, typical of e-commerce catalog photography. The white background stays clean white without turning grey.',
+        cameraView: 'Front view, slightly elevated',
+        aspectRatio: '1:1',
+        swatch: '#F7F7F5',
+    },
+    {
+        id: 'warm-living-room',
+        label: '따뜻한 거실',
+        description: '우드 플로어, 웜톤 주거 공간',
+        styleName: '따뜻한 주거 거실 스타일',
+        background: 'The furniture is placed in a calm, warm residential living room with off-white plastered walls and a large window with sheer linen curtains, softly out of focus.',
+        floor: 'It stands on a natural light oak wooden plank floor with a matte finish.',
+        lighting: 'Warm late-afternoon daylight enters from the side window, balanced with soft ambient fill. The mood is cozy and inviting with a slightly warm color balance.',
+        cameraView: 'Three-quarter front view at eye level',
+        aspectRatio: '4:3',
+        swatch: '#C9A27E',
+    },
+    {
+        id: 'dark-premium',
+        label: '다크 프리미엄',
+        description: '차콜 배경, 드라마틱 조명',
+        styleName: '다크 프리미엄 쇼룸 스타일',
+        background: 'The furniture is presented in a premium showroom against a deep charcoal, softly textured plaster wall with a subtle gradient falloff toward the edges.',
+        floor: 'It sits on a dark honed stone floor with a very faint, soft reflection.',
+        lighting: 'Low-key, dramatic lighting: a large soft key light from the upper left sculpts the form, with a gentle rim light separating the furniture from the dark background.',
+        cameraView: 'Front view',
+        aspectRatio: '3:4',
+        swatch: '#2B2B2E',
+    },
+];
+
+export const DEFAULT_STUDIO_PRESET_ID = STUDIO_PRESETS[0].id;
+
+const LAST_PRESET_STORAGE_KEY = 'appenz.studioPreset';
+
+export const getStudioPreset = (id: string): StudioPreset => {
+    return STUDIO_PRESETS.find(p => p.id === id) || STUDIO_PRESETS[0];
+};
+
+export const getAspectRatioLabel = (aspectRatio: StudioAspectRatio): string => ASPECT_RATIO_LABELS[aspectRatio];
+
+// New projects start from whichever preset was picked last
+export const getLastUsedStudioPresetId = (): string => {
+    try {
+        const stored = localStorage.getItem(LAST_PRESET_STORAGE_KEY);
+        return stored && STUDIO_PRESETS.some(p => p.id === stored) ? stored : DEFAULT_STUDIO_PRESET_ID;
+    } catch {
+        return DEFAULT_STUDIO_PRESET_ID;
+    }
+};
+
+export const setLastUsedStudioPresetId = (id: string) => {
+    try {
+        localStorage.setItem(LAST_PRESET_STORAGE_KEY, id);
+    } catch {
+        // Storage can be unavailable (private mode); the preset still applies to the current project
+    }
+};
@@ -0,0 +1,196 @@
+import type { AiErrorKind } from "./aiErrors";
+import type { TokenUsage } from "./aiProvider";
+
+// Append-only record of every model call (and cache hit) with its token usage, latency,
+// retry count and outcome, so the cost of a project can be seen and budgeted. Entries are
+// kept in localStorage; costs are estimates from list prices, not billing data.
+
+export type UsageOutcome = 'success' | 'cached' | AiErrorKind;
+
+export interface UsageEntry {
+    id: string;
+    timestamp: number;
+    sessionId: string;
+    projectId: string | null;
+    task: string;
+    providerId: string;
+    model: string;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+    retries: number; // attempts before this one for the same request
+    outcome: UsageOutcome;
+    estimatedCostUsd: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    failedCalls: number;
+    cachedCalls: number;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    estimatedCostUsd: number;
+}
+
+export interface UsageBudget {
+    monthlyLimitUsd: number | null; // null = no budget
+    warnAtPercent: number;
+}
+
+export interface BudgetCheck {
+    status: 'ok' | 'warning' | 'exceeded';
+    monthToDateUsd: number;
+    projectedUsd: number; // month to date plus the step about to run
+    limitUsd: number | null;
+}
+
+// USD per million tokens. Image model output is billed at the image rate, which dominates.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-3-pro-image-preview': { input: 2, output: 120 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+};
+
+// Used to estimate a call before there is any history for the model (one 1K image)
+const TYPICAL_IMAGE_CALL: TokenUsage = { promptTokens: 1500, outputTokens: 1120, totalTokens: 2620 };
+
+const LEDGER_STORAGE_KEY = 'appenz.usageLedger';
+const BUDGET_STORAGE_KEY = 'appenz.usageBudget';
+const MAX_LEDGER_ENTRIES = 3000;
+const DEFAULT_BUDGET: UsageBudget = { monthlyLimitUsd: null, warnAtPercent: 80 };
+
+const sessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+let activeProjectId: string | null = null;
+const listeners = new Set<() => void>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        // Storage full or unavailable; the in-memory ledger still covers this session
+        console.warn(`Could not persist ${key}:`, error);
+    }
+};
+
+let entries: UsageEntry[] = readJson<UsageEntry[]>(LEDGER_STORAGE_KEY, []);
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const estimateCost = (model: string, usage: Pick<TokenUsage, 'promptTokens' | 'outputTokens'>): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+export const getSessionId = (): string => sessionId;
+
+// The project new entries are attributed to (the open editor), or null outside a project
+export const setActiveUsageProject = (projectId: string | null) => {
+    activeProjectId = projectId;
+};
+
+export const getActiveUsageProject = (): string | null => activeProjectId;
+
+export const recordUsage = (entry: {
+    task: string;
+    providerId: string;
+    model: string;
+    projectId: string | null;
+    usage?: TokenUsage;
+    latencyMs: number;
+    retries: number;
+    outcome: UsageOutcome;
+}) => {
+    const usage = entry.usage || { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+    entries = [...entries, {
+        id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: Date.now(),
+        sessionId,
+        projectId: entry.projectId,
+        task: entry.task,
+        providerId: entry.providerId,
+        model: entry.model,
+        ...usage,
+        latencyMs: entry.latencyMs,
+        retries: entry.retries,
+        outcome: entry.outcome,
+        estimatedCostUsd: estimateCost(entry.model, usage),
+    }].slice(-MAX_LEDGER_ENTRIES);
+    writeJson(LEDGER_STORAGE_KEY, entries);
+    notify();
+};
+
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const clearUsageLedger = () => {
+    entries = [];
+    writeJson(LEDGER_STORAGE_KEY, entries);
+    notify();
+};
+
+export const summarizeUsage = (subset: UsageEntry[]): UsageTotals => {
+    return subset.reduce<UsageTotals>((totals, e) => ({
+        calls: totals.calls + (e.outcome === 'cached' ? 0 : 1),
+        failedCalls: totals.failedCalls + (e.outcome !== 'success' && e.outcome !== 'cached' ? 1 : 0),
+        cachedCalls: totals.cachedCalls + (e.outcome === 'cached' ? 1 : 0),
+        promptTokens: totals.promptTokens + e.promptTokens,
+        outputTokens: totals.outputTokens + e.outputTokens,
+        totalTokens: totals.totalTokens + e.totalTokens,
+        estimatedCostUsd: totals.estimatedCostUsd + e.estimatedCostUsd,
+    }), { calls: 0, failedCalls: 0, cachedCalls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCostUsd: 0 });
+};
+
+export const getProjectUsage = (projectId: string): UsageTotals =>
+    summarizeUsage(entries.filter(e => e.projectId === projectId));
+
+export const getSessionUsage = (): UsageTotals =>
+    summarizeUsage(entries.filter(e => e.sessionId === sessionId));
+
+export const getMonthToDateUsage = (now = new Date()): UsageTotals => {
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    return summarizeUsage(entries.filter(e => e.timestamp >= monthStart));
+};
+
+// Average cost of recent successful image calls for the model, or a typical single image before there is history
+export const estimateImageCallCost = (model: string): number => {
+    const recent = entries.filter(e => e.model === model && e.outcome === 'success').slice(-20);
+    if (recent.length === 0) return estimateCost(model, TYPICAL_IMAGE_CALL);
+    return recent.reduce((sum, e) => sum + e.estimatedCostUsd, 0) / recent.length;
+};
+
+export const getUsageBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}) });
+
+export const setUsageBudget = (budget: UsageBudget) => {
+    writeJson(BUDGET_STORAGE_KEY, budget);
+    notify();
+};
+
+/**
+ * Compares this month's spend plus the estimated cost of the next step against the monthly budget.
+ */
+export const checkBudget = (estimatedCostUsd: number): BudgetCheck => {
+    const { monthlyLimitUsd, warnAtPercent } = getUsageBudget();
+    const monthToDateUsd = getMonthToDateUsage().estimatedCostUsd;
+    const projectedUsd = monthToDateUsd + estimatedCostUsd;
+    let status: BudgetCheck['status'] = 'ok';
+    if (monthlyLimitUsd !== null) {
+        if (projectedUsd > monthlyLimitUsd) status = 'exceeded';
+        else if (projectedUsd >= monthlyLimitUsd * warnAtPercent / 100) status = 'warning';
+    }
+    return { status, monthToDateUsd, projectedUsd, limitUsd: monthlyLimitUsd };
+};
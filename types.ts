@@ -1,13 +1,26 @@
+import type { AiErrorKind } from './services/aiErrors';
+
+
+// Which prompt template (and revision of it) produced an image
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+// How an editor version was produced from its parent
+export type VersionOperation = 'initial' | 'edit' | 'reposition' | 'sketch' | 'blueprint';
 
 export interface ImageVariation {
   id: string;
   title: string;
   description: string;
   imageUrl: string; // base64 data URL
+  rawImageUrl?: string; // model output before compositing through the edit mask, when imageUrl is composited
   createdAt: Date;
   isLoading?: boolean;
   isError?: boolean;
   errorMessage?: string;
+  errorKind?: AiErrorKind; // drives which recovery actions the error card offers
   retryPayload?: {
     // base64Data: string; <-- Replaced
     // mimeType: string; <-- Replaced
@@ -16,6 +29,11 @@ export interface ImageVariation {
   };
   objects?: DetectedObject[];
   snapshotType?: 'pre-sketch' | 'pre-object'; // Added for history navigation
+  promptTemplate?: PromptTemplateRef;
+  // Editor version tree
+  parentId?: string | null; // version this one was made from; null for a root
+  operation?: VersionOperation;
+  pinned?: boolean; // pinned versions survive pruning
 }
 
 export interface GroundingChunk {
@@ -63,11 +81,20 @@ export interface BoundingBox {
   xMax: number;
 }
 
+// Orientation change of a repositioned object, on top of its new box
+export interface ObjectTransform {
+  rotation: number; // degrees, clockwise as seen in the image
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
 export interface DetectedObject {
   id: string;
   label: string;
   box: BoundingBox;
-  mask: string; // base64 encoded png mask
+  mask: string; // base64 encoded png mask, full image size
+  maskSource?: 'model' | 'refined' | 'box'; // segmentation response, client-side flood fill, or plain rectangle
+  trackingStatus?: 'tracked' | 'new'; // after re-detection: matched to an object of the previous image, or not
   children: DetectedObject[];
   thumbnailUrl?: string;
 }
@@ -78,7 +105,27 @@ export interface ApiObject {
   parentId: string | null;
   label: string;
   box_2d: [number, number, number, number]; // ymin, xmin, ymax, xmax (normalized 0-1000)
-  mask?: string; // The mask is now optional, as it will be generated on the client.
+  mask?: string; // PNG probability map covering box_2d; when missing the client refines one from the box
+}
+
+// Editor modes, in tab order
+export type EditorMode = 'UPLOAD' | 'OBJECT' | 'SKETCH' | 'BLUEPRINT' | 'FINAL';
+
+// A dimension line drawn on the blueprint (pixels of the 1974x1711 blueprint canvas)
+export interface Dimension {
+  id: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  offset: number;
+  label: string;
+}
+
+export interface DrawingMetadata {
+  title: string;
+  date: string;
+  notes: string;
 }
 
 declare global {
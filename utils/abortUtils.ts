@@ -0,0 +1,44 @@
+/**
+ * Creates the error thrown when an operation is cancelled through an AbortSignal.
+ * Matches the DOMException that fetch() rejects with, so both can be detected the same way.
+ */
+export const createAbortError = (): DOMException => {
+    return new DOMException('The operation was cancelled.', 'AbortError');
+};
+
+/**
+ * Throws an AbortError if the given signal has already been aborted.
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+};
+
+/**
+ * Returns true if the error was caused by cancelling an operation.
+ */
+export const isAbortError = (error: unknown): boolean => {
+    return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+};
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the signal fires.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
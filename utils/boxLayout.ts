@@ -0,0 +1,116 @@
+import { BoundingBox } from '../types';
+
+// Layout commands for a group of object boxes (normalized 0-1000). Each takes the current boxes by
+// object id and returns the updated ones; boxes are kept inside the image.
+
+export type BoxAlignment = 'left' | 'center' | 'right' | 'top' | 'bottom';
+export type BoxAxis = 'horizontal' | 'vertical';
+export type BoxDimension = 'width' | 'height' | 'both';
+
+type BoxMap = Record<string, BoundingBox>;
+
+const clampBox = (box: BoundingBox): BoundingBox => {
+    // Shift back inside first so a box that fits keeps its size
+    const width = Math.min(1000, box.xMax - box.xMin);
+    const height = Math.min(1000, box.yMax - box.yMin);
+    const xMin = Math.min(Math.max(0, box.xMin), 1000 - width);
+    const yMin = Math.min(Math.max(0, box.yMin), 1000 - height);
+    return { xMin, yMin, xMax: xMin + width, yMax: yMin + height };
+};
+
+const mapBoxes = (boxes: BoxMap, fn: (box: BoundingBox, id: string) => BoundingBox): BoxMap =>
+    Object.fromEntries(Object.entries(boxes).map(([id, box]) => [id, clampBox(fn(box, id))]));
+
+export const unionBox = (boxes: BoundingBox[]): BoundingBox => ({
+    xMin: Math.min(...boxes.map(b => b.xMin)),
+    yMin: Math.min(...boxes.map(b => b.yMin)),
+    xMax: Math.max(...boxes.map(b => b.xMax)),
+    yMax: Math.max(...boxes.map(b => b.yMax)),
+});
+
+/**
+ * Axis-aligned bounds of `box` rotated by `degrees` around its center. `aspect` is image width / height,
+ * since 0-1000 units are not square in pixels.
+ */
+export const rotatedBounds = (box: BoundingBox, degrees: number, aspect: number): BoundingBox => {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const halfWidth = (box.xMax - box.xMin) / 2 * aspect; // in height units
+    const halfHeight = (box.yMax - box.yMin) / 2;
+    const rotatedHalfWidth = (halfWidth * cos + halfHeight * sin) / aspect;
+    const rotatedHalfHeight = halfWidth * sin + halfHeight * cos;
+    const cx = (box.xMin + box.xMax) / 2;
+    const cy = (box.yMin + box.yMax) / 2;
+    return {
+        xMin: Math.max(0, cx - rotatedHalfWidth),
+        xMax: Math.min(1000, cx + rotatedHalfWidth),
+        yMin: Math.max(0, cy - rotatedHalfHeight),
+        yMax: Math.min(1000, cy + rotatedHalfHeight),
+    };
+};
+
+/** Moves and scales every box so the group's bounds go from `from` to `to` (group move/resize). */
+export const transformBoxes = (boxes: BoxMap, from: BoundingBox, to: BoundingBox): BoxMap => {
+    const sx = (to.xMax - to.xMin) / Math.max(1e-6, from.xMax - from.xMin);
+    const sy = (to.yMax - to.yMin) / Math.max(1e-6, from.yMax - from.yMin);
+    return mapBoxes(boxes, box => ({
+        xMin: to.xMin + (box.xMin - from.xMin) * sx,
+        xMax: to.xMin + (box.xMax - from.xMin) * sx,
+        yMin: to.yMin + (box.yMin - from.yMin) * sy,
+        yMax: to.yMin + (box.yMax - from.yMin) * sy,
+    }));
+};
+
+/** Aligns the boxes to an edge (or the horizontal center) of the group's bounds. */
+export const alignBoxes = (boxes: BoxMap, alignment: BoxAlignment): BoxMap => {
+    const bounds = unionBox(Object.values(boxes));
+    return mapBoxes(boxes, box => {
+        const width = box.xMax - box.xMin;
+        const height = box.yMax - box.yMin;
+        switch (alignment) {
+            case 'left': return { ...box, xMin: bounds.xMin, xMax: bounds.xMin + width };
+            case 'right': return { ...box, xMin: bounds.xMax - width, xMax: bounds.xMax };
+            case 'center': {
+                const center = (bounds.xMin + bounds.xMax) / 2;
+                return { ...box, xMin: center - width / 2, xMax: center + width / 2 };
+            }
+            case 'top': return { ...box, yMin: bounds.yMin, yMax: bounds.yMin + height };
+            case 'bottom': return { ...box, yMin: bounds.yMax - height, yMax: bounds.yMax };
+        }
+    });
+};
+
+/** Spaces the boxes so the gaps between neighbours are equal; the outermost two stay put. */
+export const distributeBoxes = (boxes: BoxMap, axis: BoxAxis): BoxMap => {
+    const [min, max]: ['xMin' | 'yMin', 'xMax' | 'yMax'] = axis === 'horizontal' ? ['xMin', 'xMax'] : ['yMin', 'yMax'];
+    const ordered = Object.entries(boxes).sort(([, a], [, b]) => (a[min] + a[max]) - (b[min] + b[max]));
+    if (ordered.length < 3) return boxes;
+
+    const start = Math.min(...ordered.map(([, b]) => b[min]));
+    const end = Math.max(...ordered.map(([, b]) => b[max]));
+    const occupied = ordered.reduce((sum, [, b]) => sum + (b[max] - b[min]), 0);
+    const gap = (end - start - occupied) / (ordered.length - 1);
+
+    const result: BoxMap = {};
+    let cursor = start;
+    for (const [id, box] of ordered) {
+        const size = box[max] - box[min];
+        result[id] = clampBox({ ...box, [min]: cursor, [max]: cursor + size });
+        cursor += size + gap;
+    }
+    return result;
+};
+
+/** Resizes every box around its own center to the size of `reference`. */
+export const matchBoxSize = (boxes: BoxMap, reference: BoundingBox, dimension: BoxDimension): BoxMap => {
+    const width = reference.xMax - reference.xMin;
+    const height = reference.yMax - reference.yMin;
+    return mapBoxes(boxes, box => {
+        const cx = (box.xMin + box.xMax) / 2;
+        const cy = (box.yMin + box.yMax) / 2;
+        const w = dimension === 'height' ? box.xMax - box.xMin : width;
+        const h = dimension === 'width' ? box.yMax - box.yMin : height;
+        return { xMin: cx - w / 2, xMax: cx + w / 2, yMin: cy - h / 2, yMax: cy + h / 2 };
+    });
+};
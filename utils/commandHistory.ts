@@ -0,0 +1,86 @@
+// Undo/redo stack for the editor. Every command belongs to a scope; undo and redo in a mode only
+// reach the commands of that mode's scope plus global ones (image and mode changes), newest first.
+
+export type CommandScope = 'object' | 'sketch' | 'dimensions' | 'metadata' | 'global';
+
+export interface EditorCommand {
+    label: string;
+    scope: CommandScope;
+    undo: () => void;
+    redo: () => void;
+}
+
+export interface CommandHistory {
+    done: EditorCommand[];
+    undone: EditorCommand[]; // most recently undone last
+}
+
+export const EMPTY_HISTORY: CommandHistory = { done: [], undone: [] };
+
+const MAX_COMMANDS = 100;
+// Sketch steps hold full canvas snapshots, and global ones may too, so fewer of them are kept
+const SCOPE_LIMITS: Partial<Record<CommandScope, number>> = { sketch: 20, global: 20 };
+
+const lastIndexInScopes = (commands: EditorCommand[], scopes: CommandScope[]) => {
+    for (let i = commands.length - 1; i >= 0; i--) {
+        if (scopes.includes(commands[i].scope)) return i;
+    }
+    return -1;
+};
+
+export const pushCommand = (history: CommandHistory, command: EditorCommand): CommandHistory => {
+    let done = [...history.done, command];
+    const limit = SCOPE_LIMITS[command.scope];
+    if (limit !== undefined && done.filter(c => c.scope === command.scope).length > limit) {
+        const oldest = done.findIndex(c => c.scope === command.scope);
+        // Steps older than a dropped global one belong to an image undo can no longer return to
+        done = command.scope === 'global'
+            ? done.slice(oldest + 1)
+            : [...done.slice(0, oldest), ...done.slice(oldest + 1)];
+    }
+    return {
+        done: done.slice(-MAX_COMMANDS),
+        // A new change drops the redo steps of its own scope; a global change drops all of them
+        undone: command.scope === 'global'
+            ? []
+            : history.undone.filter(c => c.scope !== command.scope && c.scope !== 'global'),
+    };
+};
+
+/** The command undo would revert in these scopes, without changing the history. */
+export const peekUndo = (history: CommandHistory, scopes: CommandScope[]): EditorCommand | null => {
+    const index = lastIndexInScopes(history.done, scopes);
+    return index < 0 ? null : history.done[index];
+};
+
+export const peekRedo = (history: CommandHistory, scopes: CommandScope[]): EditorCommand | null => {
+    const index = lastIndexInScopes(history.undone, scopes);
+    return index < 0 ? null : history.undone[index];
+};
+
+/**
+ * Takes the newest command in `scopes` off the done list. Undoing a global command returns to an
+ * earlier image, so every command recorded after it is dropped as well (it no longer applies).
+ */
+export const takeUndo = (history: CommandHistory, scopes: CommandScope[]): { command: EditorCommand; history: CommandHistory } | null => {
+    const index = lastIndexInScopes(history.done, scopes);
+    if (index < 0) return null;
+    const command = history.done[index];
+    const done = command.scope === 'global'
+        ? history.done.slice(0, index)
+        : [...history.done.slice(0, index), ...history.done.slice(index + 1)];
+    return { command, history: { done, undone: [...history.undone, command] } };
+};
+
+export const takeRedo = (history: CommandHistory, scopes: CommandScope[]): { command: EditorCommand; history: CommandHistory } | null => {
+    const index = lastIndexInScopes(history.undone, scopes);
+    if (index < 0) return null;
+    const command = history.undone[index];
+    return {
+        command,
+        history: {
+            done: [...history.done, command],
+            undone: [...history.undone.slice(0, index), ...history.undone.slice(index + 1)],
+        },
+    };
+};
@@ -0,0 +1,28 @@
+// cyrb53: a fast non-cryptographic 53-bit string hash, returned as 14 hex digits
+const cyrb53 = (text: string, seed: number): string => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Hex-encoded hash of the given strings, joined with a separator so ["ab", "c"] and ["a", "bc"] differ.
+ * SHA-256 where Web Crypto is available; it only exists in secure contexts, so over plain HTTP (e.g. the
+ * dev server opened by LAN IP) this falls back to two seeded cyrb53 passes. Fallback keys are prefixed
+ * so they never collide with SHA-256 ones. Used for cache and dedupe keys, not for security.
+ */
+export const contentHash = async (...parts: string[]): Promise<string> => {
+    const text = parts.join('\u0000');
+    if (!globalThis.crypto?.subtle) {
+        return `c53-${cyrb53(text, 0)}${cyrb53(text, 0x9e3779b9)}`;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,44 @@
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Resolves once the transaction has committed, rejects if it fails or is aborted.
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+};
+
+/**
+ * Opens (and if needed upgrades) a database. `upgrade` receives the version the database had before.
+ */
+export const openDatabase = (
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => {
+            upgrade(request.result, event.oldVersion, request.transaction!);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        // Another tab still holds an older version open; the request completes once it closes
+        request.onblocked = () => console.warn(`Opening database "${name}" is waiting for another tab to close it.`);
+    });
+};
@@ -1,4 +1,5 @@
 
+import { ObjectTransform } from '../types';
 
 export const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
   const res: Response = await fetch(dataUrl);
@@ -173,53 +174,6 @@ export const createMaskFromBox = (
   return canvas.toDataURL('image/png').split(',')[1];
 };
 
-/**
- * Creates a combined mask from multiple bounding boxes with optional padding.
- * Areas defined in the boxes will be White (editable), rest will be Black (preserved).
- * @param boxes Array of bounding boxes to mask.
- * @param imageWidth Width of the canvas.
- * @param imageHeight Height of the canvas.
- * @param paddingPixels Optional padding in pixels to expand the mask slightly for better blending (default 0).
- */
-export const createCombinedMask = (
-    boxes: { yMin: number; xMin: number; yMax: number; xMax: number }[],
-    imageWidth: number,
-    imageHeight: number,
-    paddingPixels: number = 0
-  ): string => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return '';
-  
-    canvas.width = imageWidth;
-    canvas.height = imageHeight;
-  
-    // Fill background with black (preserve)
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, imageWidth, imageHeight);
-  
-    // Fill all boxes with white (edit/inpaint)
-    ctx.fillStyle = 'white';
-    boxes.forEach(box => {
-        // Calculate absolute coordinates
-        const absX = (box.xMin / 1000) * imageWidth;
-        const absY = (box.yMin / 1000) * imageHeight;
-        const absWidth = ((box.xMax - box.xMin) / 1000) * imageWidth;
-        const absHeight = ((box.yMax - box.yMin) / 1000) * imageHeight;
-
-        // Apply padding, clamping to image boundaries
-        const padX = Math.max(0, absX - paddingPixels);
-        const padY = Math.max(0, absY - paddingPixels);
-        const padW = Math.min(imageWidth - padX, absWidth + (paddingPixels * 2));
-        const padH = Math.min(imageHeight - padY, absHeight + (paddingPixels * 2));
-
-        ctx.fillRect(padX, padY, padW, padH);
-    });
-    
-    return canvas.toDataURL('image/png').split(',')[1];
-  };
-
-
 /**
  * Draws the source image on a canvas and adds visual arrows and boxes to indicate multiple movements.
  * @param image The loaded HTMLImageElement.
@@ -228,7 +182,7 @@ export const createCombinedMask = (
  */
 export const drawMovementInstructions = (
   image: HTMLImageElement,
-  movements: { originalBox: { yMin: number; xMin: number; yMax: number; xMax: number }, newBox: { yMin: number; xMin: number; yMax: number; xMax: number } }[],
+  movements: { originalBox: { yMin: number; xMin: number; yMax: number; xMax: number }, newBox: { yMin: number; xMin: number; yMax: number; xMax: number }, transform?: ObjectTransform }[],
 ): string => {
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d');
@@ -271,15 +225,38 @@ export const drawMovementInstructions = (
     ctx.lineTo(endX - headlen * Math.cos(angle + Math.PI / 6), endY - headlen * Math.sin(angle + Math.PI / 6));
     ctx.stroke();
 
-    // 4. Draw the destination bounding box
-    const absX = (newBox.xMin / 1000) * w;
-    const absY = (newBox.yMin / 1000) * h;
+    // 4. Draw the destination bounding box, turned by the requested rotation
     const absWidth = ((newBox.xMax - newBox.xMin) / 1000) * w;
     const absHeight = ((newBox.yMax - newBox.yMin) / 1000) * h;
-    
+    const rotation = movement.transform?.rotation || 0;
+
+    ctx.save();
+    ctx.translate(endX, endY);
+    ctx.rotate(rotation * Math.PI / 180);
     ctx.strokeStyle = '#FF0000'; // Bright red
     ctx.lineWidth = 4; // Slightly thinner than the arrow
-    ctx.strokeRect(absX, absY, absWidth, absHeight);
+    ctx.strokeRect(-absWidth / 2, -absHeight / 2, absWidth, absHeight);
+    if (rotation !== 0) {
+      // Tick on the box's (rotated) top edge so the new orientation reads at a glance
+      ctx.beginPath();
+      ctx.moveTo(0, -absHeight / 2);
+      ctx.lineTo(0, -absHeight / 2 - 30);
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    // 5. Label rotation and mirroring next to the destination box
+    const notes = [
+      rotation !== 0 ? `${Math.round(rotation)}°` : '',
+      movement.transform?.flipHorizontal ? '⇆' : '',
+      movement.transform?.flipVertical ? '⇅' : '',
+    ].filter(Boolean).join(' ');
+    if (notes) {
+      ctx.fillStyle = '#FF0000';
+      ctx.font = `bold ${Math.max(24, Math.round(h / 30))}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.fillText(notes, endX, endY - absHeight / 2 - 40);
+    }
   });
 
   // Return base64 data only
@@ -344,4 +321,65 @@ export const compositeOntoCanvas = async (base64Image: string, targetWidth: numb
         // Set source
         img.src = base64Image.startsWith('data:') ? base64Image : `data:image/png;base64,${base64Image}`;
     });
-};
\ No newline at end of file
+};
+/**
+ * Pixel difference between two versions of an image, as a heatmap over a dimmed copy of `afterUrl`.
+ * Both are compared at the after image's aspect, downscaled to `maxSide`; small differences
+ * (compression noise) are ignored.
+ * @returns The heatmap as a PNG data URL and the share of pixels that changed (0-1).
+ */
+export const createDifferenceHeatmap = async (
+    beforeUrl: string,
+    afterUrl: string,
+    maxSide: number = 1024
+): Promise<{ heatmapUrl: string; changedRatio: number }> => {
+    const load = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = src;
+    });
+    const [before, after] = await Promise.all([load(beforeUrl), load(afterUrl)]);
+    const scale = Math.min(1, maxSide / Math.max(after.naturalWidth, after.naturalHeight));
+    const width = Math.max(1, Math.round(after.naturalWidth * scale));
+    const height = Math.max(1, Math.round(after.naturalHeight * scale));
+
+    const readPixels = (img: HTMLImageElement) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Canvas context not available');
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+    const a = readPixels(before).data;
+    const b = readPixels(after).data;
+
+    const NOISE = 24; // max channel difference still treated as unchanged
+    const out = new ImageData(width, height);
+    let changed = 0;
+    for (let i = 0; i < b.length; i += 4) {
+        const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+        const gray = (b[i] * 0.3 + b[i + 1] * 0.59 + b[i + 2] * 0.11) * 0.35; // dimmed after image
+        if (diff <= NOISE) {
+            out.data[i] = out.data[i + 1] = out.data[i + 2] = gray;
+        } else {
+            changed++;
+            // Yellow for slight changes through to red for strong ones
+            const strength = Math.min(1, (diff - NOISE) / 128);
+            out.data[i] = 255;
+            out.data[i + 1] = Math.round(220 * (1 - strength));
+            out.data[i + 2] = 0;
+        }
+        out.data[i + 3] = 255;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.putImageData(out, 0, 0);
+    return { heatmapUrl: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
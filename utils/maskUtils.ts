@@ -0,0 +1,448 @@
+import { BoundingBox } from '../types';
+import { createMaskFromBox } from './imageUtils';
+
+// Object masks are full-image PNGs: white = the object (editable), black = everything else.
+
+export type MaskSource = 'model' | 'refined' | 'box';
+
+// One area of a combined edit mask. `mask` is a full-image object mask drawn for `sourceBox`
+// (defaults to `box`); when the boxes differ (a moved object) the mask is moved/scaled along.
+export interface MaskRegion {
+  box: BoundingBox;
+  mask?: string;
+  sourceBox?: BoundingBox;
+}
+
+// Flood fill tuning for the client-side fallback
+const REFINE_MAX_SIDE = 512;   // the fill runs on a downscaled crop
+const REFINE_MARGIN = 0.04;    // crop slightly beyond the box so the border sits on background
+const BORDER_TOLERANCE = 48;   // how close a border pixel must be to the background colour to seed the fill
+const COLOR_TOLERANCE = 22;    // max colour step between neighbouring background pixels
+const EDGE_THRESHOLD = 90;     // Sobel magnitude that stops the fill
+const MIN_COVERAGE = 0.05;     // results outside this share of the box are treated as failures
+const MAX_COVERAGE = 0.98;
+
+const toPixelRect = (box: BoundingBox, width: number, height: number) => ({
+  x: (box.xMin / 1000) * width,
+  y: (box.yMin / 1000) * height,
+  w: ((box.xMax - box.xMin) / 1000) * width,
+  h: ((box.yMax - box.yMin) / 1000) * height,
+});
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return [canvas, ctx];
+};
+
+const toBase64 = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+export const loadMaskImage = (mask: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load mask image'));
+    img.src = mask.startsWith('data:') ? mask : `data:image/png;base64,${mask}`;
+  });
+};
+
+/**
+ * Snaps a (scaled, anti-aliased) mask back to pure black and white. Transparent pixels count as black.
+ */
+export const binarizeMask = (ctx: CanvasRenderingContext2D, threshold: number = 128) => {
+  const { width, height } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = (data[i] * data[i + 3]) / 255 >= threshold ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Places a segmentation mask from the model (a probability map covering only the box) into a full-image mask.
+ */
+export const rasterizeModelMask = async (modelMask: string, box: BoundingBox, width: number, height: number): Promise<string> => {
+  const maskImg = await loadMaskImage(modelMask);
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  const rect = toPixelRect(box, width, height);
+  ctx.drawImage(maskImg, rect.x, rect.y, rect.w, rect.h);
+  binarizeMask(ctx);
+  return toBase64(canvas);
+};
+
+/**
+ * Fallback segmentation: flood fills the background inward from the edges of the box, stopping at
+ * strong edges and colour jumps, and keeps whatever was not reached as the object.
+ * Returns null when the result doesn't look like an object (almost empty or the whole box).
+ */
+export const refineMaskInBox = (image: HTMLImageElement, box: BoundingBox): string | null => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const rect = toPixelRect(box, width, height);
+  if (rect.w < 4 || rect.h < 4) return null;
+
+  // Crop region: the box plus a small margin, clamped to the image
+  const cropX = Math.max(0, rect.x - rect.w * REFINE_MARGIN);
+  const cropY = Math.max(0, rect.y - rect.h * REFINE_MARGIN);
+  const cropW = Math.min(width, rect.x + rect.w * (1 + REFINE_MARGIN)) - cropX;
+  const cropH = Math.min(height, rect.y + rect.h * (1 + REFINE_MARGIN)) - cropY;
+
+  const scale = Math.min(1, REFINE_MAX_SIDE / Math.max(cropW, cropH));
+  const w = Math.max(3, Math.round(cropW * scale));
+  const h = Math.max(3, Math.round(cropH * scale));
+  const [crop, cropCtx] = createCanvas(w, h);
+  cropCtx.drawImage(image, cropX, cropY, cropW, cropH, 0, 0, w, h);
+  const pixels = cropCtx.getImageData(0, 0, w, h);
+  const data = pixels.data;
+
+  const colorDistance = (a: number, b: number) => {
+    const dr = data[a * 4] - data[b * 4];
+    const dg = data[a * 4 + 1] - data[b * 4 + 1];
+    const db = data[a * 4 + 2] - data[b * 4 + 2];
+    return Math.sqrt(dr * dr + dg * dg + db * db);
+  };
+
+  // Edge strength (Sobel on luminance)
+  const lum = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    lum[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const edge = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const gx = lum[i - w + 1] + 2 * lum[i + 1] + lum[i + w + 1] - lum[i - w - 1] - 2 * lum[i - 1] - lum[i + w - 1];
+      const gy = lum[i + w - 1] + 2 * lum[i + w] + lum[i + w + 1] - lum[i - w - 1] - 2 * lum[i - w] - lum[i - w + 1];
+      edge[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+
+  // Background colour = per-channel median of the crop border
+  const borderIndices: number[] = [];
+  for (let x = 0; x < w; x++) borderIndices.push(x, (h - 1) * w + x);
+  for (let y = 1; y < h - 1; y++) borderIndices.push(y * w, y * w + w - 1);
+  const median = (channel: number) => {
+    const values = borderIndices.map(i => data[i * 4 + channel]).sort((a, b) => a - b);
+    return values[values.length >> 1];
+  };
+  const bg = [median(0), median(1), median(2)];
+  const distanceToBackground = (i: number) => Math.sqrt(
+    (data[i * 4] - bg[0]) ** 2 + (data[i * 4 + 1] - bg[1]) ** 2 + (data[i * 4 + 2] - bg[2]) ** 2
+  );
+
+  const background = new Uint8Array(w * h);
+  const queue = new Int32Array(w * h);
+  let head = 0;
+  let tail = 0;
+  for (const i of borderIndices) {
+    if (!background[i] && distanceToBackground(i) < BORDER_TOLERANCE) {
+      background[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % w;
+    const neighbours = [x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1, i - w, i + w];
+    for (const n of neighbours) {
+      if (n < 0 || n >= w * h || background[n]) continue;
+      if (edge[n] >= EDGE_THRESHOLD || colorDistance(i, n) >= COLOR_TOLERANCE) continue;
+      background[n] = 1;
+      queue[tail++] = n;
+    }
+  }
+
+  // Object = not reached, limited to the box itself
+  const boxX0 = (rect.x - cropX) * scale, boxX1 = boxX0 + rect.w * scale;
+  const boxY0 = (rect.y - cropY) * scale, boxY1 = boxY0 + rect.h * scale;
+  let objectPixels = 0;
+  let boxPixels = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const inBox = x >= boxX0 && x < boxX1 && y >= boxY0 && y < boxY1;
+      const isObject = inBox && !background[i];
+      if (inBox) boxPixels++;
+      if (isObject) objectPixels++;
+      const value = isObject ? 255 : 0;
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = value;
+      data[i * 4 + 3] = 255;
+    }
+  }
+  const coverage = boxPixels > 0 ? objectPixels / boxPixels : 0;
+  if (coverage < MIN_COVERAGE || coverage > MAX_COVERAGE) return null;
+  cropCtx.putImageData(pixels, 0, 0);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(crop, cropX, cropY, cropW, cropH);
+  binarizeMask(ctx);
+  return toBase64(canvas);
+};
+
+/**
+ * Best available mask for a detected object: the model's mask, else a flood-fill refinement, else the box.
+ */
+export const createObjectMask = async (
+  modelMask: string | undefined,
+  box: BoundingBox,
+  image: HTMLImageElement
+): Promise<{ mask: string; source: MaskSource }> => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  if (modelMask) {
+    try {
+      return { mask: await rasterizeModelMask(modelMask, box, width, height), source: 'model' };
+    } catch (error) {
+      console.warn('Could not decode the segmentation mask, refining from the box instead:', error);
+    }
+  }
+  const refined = refineMaskInBox(image, box);
+  if (refined) return { mask: refined, source: 'refined' };
+  return { mask: createMaskFromBox(box, width, height), source: 'box' };
+};
+
+/**
+ * Grows the white area by `radius` pixels (stamps the mask around a circle), so edits blend past the outline.
+ */
+const dilateMask = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+  const [canvas, ctx] = createCanvas(source.width, source.height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.drawImage(source, 0, 0);
+  const steps = 16;
+  for (const r of [radius / 2, radius]) {
+    for (let s = 0; s < steps; s++) {
+      const angle = (s / steps) * Math.PI * 2;
+      ctx.drawImage(source, Math.cos(angle) * r, Math.sin(angle) * r);
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+  binarizeMask(ctx, 1);
+  return canvas;
+};
+
+/**
+ * Creates a combined mask from multiple regions with optional padding.
+ * Object masks are used where available, plain boxes otherwise.
+ * Areas in the regions will be White (editable), rest will be Black (preserved).
+ * @param regions Areas to mask.
+ * @param imageWidth Width of the canvas.
+ * @param imageHeight Height of the canvas.
+ * @param paddingPixels Optional padding in pixels to expand the mask slightly for better blending (default 0).
+ */
+export const createCombinedMask = async (
+  regions: MaskRegion[],
+  imageWidth: number,
+  imageHeight: number,
+  paddingPixels: number = 0
+): Promise<string> => {
+  const [canvas, ctx] = createCanvas(imageWidth, imageHeight);
+
+  // Fill background with black (preserve)
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, imageWidth, imageHeight);
+
+  // Union of all regions in white (edit/inpaint)
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.fillStyle = 'white';
+  for (const region of regions) {
+    const target = toPixelRect(region.box, imageWidth, imageHeight);
+    if (region.mask) {
+      const maskImg = await loadMaskImage(region.mask);
+      const source = toPixelRect(region.sourceBox || region.box, maskImg.naturalWidth, maskImg.naturalHeight);
+      if (source.w >= 1 && source.h >= 1) {
+        ctx.drawImage(maskImg, source.x, source.y, source.w, source.h, target.x, target.y, target.w, target.h);
+      }
+    } else {
+      ctx.fillRect(target.x, target.y, target.w, target.h);
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+  binarizeMask(ctx);
+
+  return toBase64(paddingPixels > 0 ? dilateMask(canvas, paddingPixels) : canvas);
+};
+
+const loadImage = (base64Data: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = base64Data.startsWith('data:') ? base64Data : `data:image/png;base64,${base64Data}`;
+  });
+};
+
+// Three box blur passes ≈ gaussian; runs on a single channel so it works without canvas filters
+const blurChannel = (values: Float32Array, width: number, height: number, radius: number) => {
+  const r = Math.max(1, Math.round(radius / 3));
+  const temp = new Float32Array(values.length);
+  const pass = (src: Float32Array, dst: Float32Array, horizontal: boolean) => {
+    const outer = horizontal ? height : width;
+    const inner = horizontal ? width : height;
+    for (let o = 0; o < outer; o++) {
+      const index = (i: number) => horizontal ? o * width + i : i * width + o;
+      let sum = 0;
+      for (let i = -r; i <= r; i++) sum += src[index(Math.min(inner - 1, Math.max(0, i)))];
+      for (let i = 0; i < inner; i++) {
+        dst[index(i)] = sum / (2 * r + 1);
+        sum += src[index(Math.min(inner - 1, i + r + 1))] - src[index(Math.max(0, i - r))];
+      }
+    }
+  };
+  for (let n = 0; n < 3; n++) {
+    pass(values, temp, true);
+    pass(temp, values, false);
+  }
+};
+
+/**
+ * Pastes the generated image onto the original only where the mask is white, with an edge feathered
+ * inward over `featherPixels`, so everything outside the mask keeps the original pixels exactly. The generated image is scaled
+ * to the original's size first (inputs are downscaled before they are sent to the model).
+ * @returns base64 PNG (data only) at the original image's resolution.
+ */
+export const compositeThroughMask = async (
+  originalBase64: string,
+  generatedBase64: string,
+  maskBase64: string,
+  featherPixels: number = 0
+): Promise<string> => {
+  const [original, generated, maskImg] = await Promise.all([
+    loadImage(originalBase64), loadImage(generatedBase64), loadMaskImage(maskBase64),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // Mask → per-pixel blend weight at full resolution
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  maskCtx.drawImage(maskImg, 0, 0, width, height);
+  const maskData = maskCtx.getImageData(0, 0, width, height).data;
+  const weights = new Float32Array(width * height);
+  for (let i = 0; i < weights.length; i++) weights[i] = maskData[i * 4] / 255;
+  if (featherPixels > 0) {
+    // A blurred edge sits at 0.5 on the mask boundary; stretching the upper half to 0..1 moves the whole
+    // ramp inside the mask, and the original weights cap it so nothing outside can bleed through
+    const inside = weights.slice();
+    blurChannel(weights, width, height, featherPixels);
+    for (let i = 0; i < weights.length; i++) weights[i] = Math.min(inside[i], Math.max(0, weights[i] * 2 - 1));
+  }
+  maskCanvas.width = 0; // release
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  const base = ctx.getImageData(0, 0, width, height);
+  ctx.drawImage(generated, 0, 0, width, height);
+  const edited = ctx.getImageData(0, 0, width, height);
+
+  const out = base.data;
+  const src = edited.data;
+  for (let i = 0; i < weights.length; i++) {
+    const w = weights[i];
+    if (w <= 0) continue;
+    const p = i * 4;
+    out[p] = out[p] + (src[p] - out[p]) * w;
+    out[p + 1] = out[p + 1] + (src[p + 1] - out[p + 1]) * w;
+    out[p + 2] = out[p + 2] + (src[p + 2] - out[p + 2]) * w;
+  }
+  ctx.putImageData(base, 0, 0);
+  return toBase64(canvas);
+};
+
+/**
+ * Cuts the object out of `image`: the area of `box`, with the mask as alpha. `scale` shrinks the result
+ * (previews work on a downscaled copy).
+ */
+export const cutOutObject = async (
+  image: HTMLImageElement,
+  maskBase64: string,
+  box: BoundingBox,
+  scale: number = 1
+): Promise<HTMLCanvasElement> => {
+  const maskImg = await loadMaskImage(maskBase64);
+  const source = toPixelRect(box, image.naturalWidth, image.naturalHeight);
+  const maskSource = toPixelRect(box, maskImg.naturalWidth, maskImg.naturalHeight);
+  const [canvas, ctx] = createCanvas(source.w * scale, source.h * scale);
+  if (source.w < 1 || source.h < 1) return canvas;
+
+  // Mask luminance → alpha, then keep the image only where that alpha is set
+  ctx.drawImage(maskImg, maskSource.x, maskSource.y, maskSource.w, maskSource.h, 0, 0, canvas.width, canvas.height);
+  const alpha = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < alpha.data.length; i += 4) {
+    alpha.data[i + 3] = alpha.data[i];
+  }
+  ctx.putImageData(alpha, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.drawImage(image, source.x, source.y, source.w, source.h, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-over';
+  return canvas;
+};
+
+/**
+ * Rough hole fill for previews: pixels under the masks (grown a little to cover the outline) become
+ * a blend of the nearest uncovered pixels to the left/right and above/below. Works on `ctx` in place.
+ */
+export const fillMaskedArea = async (ctx: CanvasRenderingContext2D, masks: string[]) => {
+  if (masks.length === 0) return;
+  const { width, height } = ctx.canvas;
+
+  const [holeCanvas, holeCtx] = createCanvas(width, height);
+  holeCtx.fillStyle = 'black';
+  holeCtx.fillRect(0, 0, width, height);
+  holeCtx.globalCompositeOperation = 'lighter';
+  for (const mask of masks) {
+    holeCtx.drawImage(await loadMaskImage(mask), 0, 0, width, height);
+  }
+  const grown = dilateMask(holeCanvas, Math.max(2, Math.round(Math.max(width, height) / 300)));
+  const holeData = grown.getContext('2d')!.getImageData(0, 0, width, height).data;
+  const hole = new Uint8Array(width * height);
+  for (let i = 0; i < hole.length; i++) hole[i] = holeData[i * 4] >= 128 ? 1 : 0;
+
+  const image = ctx.getImageData(0, 0, width, height);
+  const src = image.data;
+  const sum = new Float32Array(width * height * 3);
+  const count = new Uint8Array(width * height);
+
+  // Interpolates across each run of hole pixels along one line (a row or a column)
+  const fillLine = (length: number, indexAt: (k: number) => number) => {
+    let k = 0;
+    while (k < length) {
+      if (!hole[indexAt(k)]) { k++; continue; }
+      const start = k;
+      while (k < length && hole[indexAt(k)]) k++;
+      const before = start > 0 ? indexAt(start - 1) : -1;
+      const after = k < length ? indexAt(k) : -1;
+      if (before < 0 && after < 0) continue;
+      for (let j = start; j < k; j++) {
+        const t = (j - start + 1) / (k - start + 1);
+        const i = indexAt(j);
+        for (let c = 0; c < 3; c++) {
+          const a = before >= 0 ? src[before * 4 + c] : src[after * 4 + c];
+          const b = after >= 0 ? src[after * 4 + c] : src[before * 4 + c];
+          sum[i * 3 + c] += a + (b - a) * t;
+        }
+        count[i]++;
+      }
+    }
+  };
+
+  for (let y = 0; y < height; y++) fillLine(width, x => y * width + x);
+  for (let x = 0; x < width; x++) fillLine(height, y => y * width + x);
+
+  for (let i = 0; i < count.length; i++) {
+    if (!count[i]) continue;
+    src[i * 4] = sum[i * 3] / count[i];
+    src[i * 4 + 1] = sum[i * 3 + 1] / count[i];
+    src[i * 4 + 2] = sum[i * 3 + 2] / count[i];
+  }
+  ctx.putImageData(image, 0, 0);
+  holeCanvas.width = 0; // release
+};
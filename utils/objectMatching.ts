@@ -0,0 +1,85 @@
+import { BoundingBox, DetectedObject } from '../types';
+
+// Carries object identity from one image to the next: fresh detections are matched to the previous
+// tree by box overlap and label similarity, and matched objects keep the previous id and label.
+
+const MIN_MATCH_SCORE = 0.35;
+const MIN_MATCH_IOU = 0.1; // label alone never makes a match
+const IOU_WEIGHT = 0.7;
+const LABEL_WEIGHT = 0.3;
+
+export interface ObjectMatchResult {
+    objects: DetectedObject[]; // new tree, matched objects carry the previous ids
+    lost: DetectedObject[];    // previous objects with no counterpart in the new image
+}
+
+export const boxIoU = (a: BoundingBox, b: BoundingBox): number => {
+    const ix = Math.max(0, Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin));
+    const iy = Math.max(0, Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin));
+    const intersection = ix * iy;
+    const area = (box: BoundingBox) => Math.max(0, box.xMax - box.xMin) * Math.max(0, box.yMax - box.yMin);
+    const union = area(a) + area(b) - intersection;
+    return union > 0 ? intersection / union : 0;
+};
+
+const tokenize = (label: string) => new Set(label.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+// Word overlap (Jaccard), with full credit when one label contains the other ("leg" / "table leg")
+export const labelSimilarity = (a: string, b: string): number => {
+    const la = a.trim().toLowerCase();
+    const lb = b.trim().toLowerCase();
+    if (!la || !lb) return 0;
+    if (la === lb || la.includes(lb) || lb.includes(la)) return 1;
+    const ta = tokenize(la);
+    const tb = tokenize(lb);
+    const shared = Array.from(ta).filter(token => tb.has(token)).length;
+    const union = new Set([...Array.from(ta), ...Array.from(tb)]).size;
+    return union > 0 ? shared / union : 0;
+};
+
+const flatten = (nodes: DetectedObject[]): DetectedObject[] =>
+    nodes.flatMap(node => [node, ...flatten(node.children)]);
+
+/**
+ * Matches `next` (fresh detections) against `previous`, best pairs first. Matched objects take the
+ * previous id and label and are flagged 'tracked'; the rest are flagged 'new'.
+ */
+export const matchObjectTrees = (previous: DetectedObject[], next: DetectedObject[]): ObjectMatchResult => {
+    const previousFlat = flatten(previous);
+    const nextFlat = flatten(next);
+
+    const candidates: { prev: DetectedObject; next: DetectedObject; score: number }[] = [];
+    for (const p of previousFlat) {
+        for (const n of nextFlat) {
+            const iou = boxIoU(p.box, n.box);
+            if (iou < MIN_MATCH_IOU) continue;
+            const score = iou * IOU_WEIGHT + labelSimilarity(p.label, n.label) * LABEL_WEIGHT;
+            if (score >= MIN_MATCH_SCORE) candidates.push({ prev: p, next: n, score });
+        }
+    }
+    candidates.sort((a, b) => b.score - a.score);
+
+    const matchedPrev = new Set<string>();
+    const matchByNextId = new Map<string, DetectedObject>();
+    for (const { prev, next: n } of candidates) {
+        if (matchedPrev.has(prev.id) || matchByNextId.has(n.id)) continue;
+        matchedPrev.add(prev.id);
+        matchByNextId.set(n.id, prev);
+    }
+
+    const relabel = (node: DetectedObject): DetectedObject => {
+        const match = matchByNextId.get(node.id);
+        return {
+            ...node,
+            id: match ? match.id : node.id,
+            label: match ? match.label : node.label,
+            trackingStatus: match ? 'tracked' : 'new',
+            children: node.children.map(relabel),
+        };
+    };
+
+    return {
+        objects: next.map(relabel),
+        lost: previousFlat.filter(p => !matchedPrev.has(p.id)),
+    };
+};
@@ -0,0 +1,162 @@
+import { DetectedObject } from '../types';
+import { cropImage, createMaskFromBox } from './imageUtils';
+import { createCombinedMask } from './maskUtils';
+
+// Immutable edits on the object tree (rename, reparent, merge, split). Every edit returns a new tree;
+// parents whose children changed are re-enclosed with the same logic detection uses.
+
+const findPath = (nodes: DetectedObject[], id: string, path: DetectedObject[] = []): DetectedObject[] | null => {
+    for (const node of nodes) {
+        if (node.id === id) return [...path, node];
+        const found = findPath(node.children, id, [...path, node]);
+        if (found) return found;
+    }
+    return null;
+};
+
+// Removes `id` wherever it is; returns the tree without it (as fresh node copies, safe to mutate)
+// and the removed subtree
+const detach = (nodes: DetectedObject[], id: string): { tree: DetectedObject[]; detached: DetectedObject | null } => {
+    let detached: DetectedObject | null = null;
+    const walk = (list: DetectedObject[]): DetectedObject[] => list
+        .filter(node => {
+            if (node.id !== id) return true;
+            detached = node;
+            return false;
+        })
+        .map(node => ({ ...node, children: walk(node.children) }));
+    const tree = walk(nodes);
+    return { tree, detached };
+};
+
+/**
+ * Grows `obj` so its box (and mask) encloses all direct children, starting from its current box.
+ * Box-only masks are redrawn from the new box; pixel masks are unioned with the children's.
+ */
+export const encloseChildren = async (obj: DetectedObject, imageEl: HTMLImageElement) => {
+    if (obj.children.length === 0) return;
+    let minX = obj.box.xMin, minY = obj.box.yMin, maxX = obj.box.xMax, maxY = obj.box.yMax;
+    obj.children.forEach(child => {
+        minX = Math.min(minX, child.box.xMin); minY = Math.min(minY, child.box.yMin);
+        maxX = Math.max(maxX, child.box.xMax); maxY = Math.max(maxY, child.box.yMax);
+    });
+    const ownBox = obj.box;
+    obj.box = { xMin: minX, yMin: minY, xMax: maxX, yMax: maxY };
+    obj.thumbnailUrl = cropImage(imageEl, obj.box);
+    if (obj.maskSource === 'box') {
+        obj.mask = createMaskFromBox(obj.box, imageEl.naturalWidth, imageEl.naturalHeight);
+    } else {
+        obj.mask = await createCombinedMask(
+            [{ box: ownBox, mask: obj.mask }, ...obj.children.map(child => ({ box: child.box, mask: child.mask }))],
+            imageEl.naturalWidth, imageEl.naturalHeight
+        );
+    }
+};
+
+// Expand parent boxes (and masks) to fully enclose children, deepest first
+export const expandParentBoxes = async (obj: DetectedObject, imageEl: HTMLImageElement): Promise<void> => {
+    if (obj.children.length > 0) {
+        await Promise.all(obj.children.map(child => expandParentBoxes(child, imageEl)));
+        await encloseChildren(obj, imageEl);
+    }
+};
+
+// Re-encloses the ancestors of `id`, innermost first (the path must be fresh copies)
+const encloseAncestors = async (tree: DetectedObject[], id: string, imageEl: HTMLImageElement) => {
+    const path = findPath(tree, id);
+    if (!path) return;
+    for (const ancestor of path.slice(0, -1).reverse()) {
+        await encloseChildren(ancestor, imageEl);
+    }
+};
+
+export const findParentId = (nodes: DetectedObject[], id: string): string | null => {
+    const path = findPath(nodes, id);
+    return path && path.length > 1 ? path[path.length - 2].id : null;
+};
+
+export const renameObject = (nodes: DetectedObject[], id: string, label: string): DetectedObject[] =>
+    nodes.map(node => ({
+        ...node,
+        label: node.id === id ? label : node.label,
+        children: renameObject(node.children, id, label),
+    }));
+
+// Whether `id` can be moved under `newParentId` (null = top level) without creating a cycle
+export const canReparent = (nodes: DetectedObject[], id: string, newParentId: string | null): boolean => {
+    if (id === newParentId) return false;
+    if (findParentId(nodes, id) === newParentId) return false;
+    if (newParentId === null) return true;
+    const targetPath = findPath(nodes, newParentId);
+    return !!targetPath && !targetPath.some(node => node.id === id);
+};
+
+/** Moves `id` (with its subtree) under `newParentId`, or to the top level when it is null. */
+export const reparentObject = async (
+    nodes: DetectedObject[], id: string, newParentId: string | null, imageEl: HTMLImageElement
+): Promise<DetectedObject[]> => {
+    if (!canReparent(nodes, id, newParentId)) return nodes;
+    const { tree, detached } = detach(nodes, id);
+    if (!detached) return nodes;
+    if (newParentId === null) return [...tree, detached];
+
+    const parent = findPath(tree, newParentId)?.pop();
+    if (!parent) return nodes;
+    parent.children.push(detached);
+    await encloseAncestors(tree, detached.id, imageEl);
+    return tree;
+};
+
+/** Adds a new object at the top level or under `parentId`, growing its ancestors to enclose it. */
+export const addObject = async (
+    nodes: DetectedObject[], object: DetectedObject, parentId: string | null, imageEl: HTMLImageElement
+): Promise<DetectedObject[]> => {
+    if (!parentId) return [...nodes, object];
+    const { tree } = detach(nodes, object.id); // fresh copies to grow the ancestors in place
+    const parent = findPath(tree, parentId)?.pop();
+    if (!parent) return [...nodes, object];
+    parent.children.push(object);
+    await encloseAncestors(tree, object.id, imageEl);
+    return tree;
+};
+
+/**
+ * Merges two objects into one: a new object covering both takes the place of `targetId`, with the two
+ * as its children, so a wrong split from detection can be treated as a single part.
+ */
+export const mergeObjects = async (
+    nodes: DetectedObject[], targetId: string, otherId: string, label: string, imageEl: HTMLImageElement
+): Promise<DetectedObject[]> => {
+    if (targetId === otherId) return nodes;
+    const targetPath = findPath(nodes, targetId);
+    const otherPath = findPath(nodes, otherId);
+    // Merging an object with its own ancestor or descendant is just the ancestor
+    if (!targetPath || !otherPath || targetPath.some(n => n.id === otherId) || otherPath.some(n => n.id === targetId)) return nodes;
+
+    const { tree, detached: other } = detach(nodes, otherId);
+    if (!other) return nodes;
+    const target = findPath(tree, targetId)?.pop();
+    if (!target) return nodes;
+
+    const merged: DetectedObject = {
+        id: `merged-${Date.now()}`,
+        label,
+        box: target.box,
+        mask: target.mask,
+        maskSource: target.maskSource === 'box' && other.maskSource === 'box' ? 'box' : 'refined',
+        thumbnailUrl: target.thumbnailUrl,
+        children: [target, other],
+    };
+    const replace = (list: DetectedObject[]): DetectedObject[] =>
+        list.map(node => node.id === targetId ? merged : { ...node, children: replace(node.children) });
+    const result = replace(tree);
+    await encloseChildren(merged, imageEl);
+    await encloseAncestors(result, merged.id, imageEl);
+    return result;
+};
+
+/** Splits an object into its children: the object is removed and its children take its place. */
+export const splitObject = (nodes: DetectedObject[], id: string): DetectedObject[] =>
+    nodes.flatMap(node => node.id === id
+        ? node.children
+        : [{ ...node, children: splitObject(node.children, id) }]);
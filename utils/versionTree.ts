@@ -0,0 +1,73 @@
+import { ImageVariation } from '../types';
+
+// The editor's image history as a tree: every version points at the version it was made from, so
+// going back to an older image and editing again starts a new branch instead of losing the relation.
+
+export interface VersionNode {
+    version: ImageVariation;
+    children: VersionNode[];
+}
+
+/** Builds the tree in history order; versions whose parent is gone become roots. */
+export const buildVersionTree = (versions: ImageVariation[]): VersionNode[] => {
+    const nodes = new Map(versions.map(version => [version.id, { version, children: [] as VersionNode[] }]));
+    const roots: VersionNode[] = [];
+    for (const version of versions) {
+        const node = nodes.get(version.id)!;
+        const parent = version.parentId ? nodes.get(version.parentId) : undefined;
+        if (parent && parent !== node) parent.children.push(node);
+        else roots.push(node);
+    }
+    return roots;
+};
+
+// Ids of `id` and everything made from it
+const subtreeIds = (versions: ImageVariation[], id: string): Set<string> => {
+    const ids = new Set([id]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const version of versions) {
+            if (version.parentId && ids.has(version.parentId) && !ids.has(version.id)) {
+                ids.add(version.id);
+                grew = true;
+            }
+        }
+    }
+    return ids;
+};
+
+export const isInBranch = (versions: ImageVariation[], branchId: string, id: string) =>
+    subtreeIds(versions, branchId).has(id);
+
+export const renameVersion = (versions: ImageVariation[], id: string, title: string): ImageVariation[] =>
+    versions.map(version => version.id === id ? { ...version, title } : version);
+
+export const togglePinned = (versions: ImageVariation[], id: string): ImageVariation[] =>
+    versions.map(version => version.id === id ? { ...version, pinned: !version.pinned } : version);
+
+/**
+ * Removes a version and the branch grown from it. Pinned versions in the branch are kept and
+ * re-attached to the nearest version that remains.
+ */
+export const pruneVersion = (versions: ImageVariation[], id: string): ImageVariation[] => {
+    const removed = subtreeIds(versions, id);
+    versions.forEach(version => { if (version.pinned) removed.delete(version.id); });
+    return dropVersions(versions, removed);
+};
+
+/** Removes the given versions; versions made from them are re-attached to the nearest one that remains. */
+export const dropVersions = (versions: ImageVariation[], removed: Set<string>): ImageVariation[] => {
+    const parentOf = new Map(versions.map(version => [version.id, version.parentId ?? null]));
+    const survivingAncestor = (parentId: string | null): string | null => {
+        let current = parentId;
+        while (current && removed.has(current)) current = parentOf.get(current) ?? null;
+        return current;
+    };
+    return versions
+        .filter(version => !removed.has(version.id))
+        .map(version => {
+            const parentId = survivingAncestor(version.parentId ?? null);
+            return parentId === (version.parentId ?? null) ? version : { ...version, parentId };
+        });
+};